@@ -1,40 +1,108 @@
 import { EventEmitter } from 'events';
+import crypto, { KeyObject } from 'crypto';
 import { Server } from 'http';
+import { AddressInfo } from 'net';
 import open from 'open';
-import axios from 'axios';
+import { AxiosResponse } from 'axios';
 import {
   OAuthTokens,
   OAuthClientInformationFull,
   OAuthClientMetadata,
   AuthorizationServerMetadata,
-  OAuthMetadata
+  OAuthProtectedResourceMetadata,
+  OAuthClientInformationFullSchema
 } from '@modelcontextprotocol/sdk/shared/auth.js';
 import { OAuthClientProvider as IOAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { 
   OAuthClientProviderOptions, 
   AuthState,
-  TokenStorage 
+  TokenStorage,
+  StoredOAuthTokens,
+  DeviceAuthorizationInfo,
+  AuthStatus,
+  OAuthLogger,
+  OAuthProviderEvents,
+  LogoutOptions,
+  TokenEndpointAuthMethod,
+  CredentialScope,
+  ProfileInfo,
+  StoredServerMetadata,
+  AuthorizationSession
 } from './types';
 import { 
-  log, 
-  debugLog, 
-  DEBUG, 
   getServerUrlHash,
-  FileTokenStorage 
+  getDefaultLogger,
+  createRedactingLogger,
+  isTokenExpired,
+  isDisplayAvailable,
+  FileTokenStorage,
+  DEFAULT_PROFILE
 } from './utils';
-import { createOAuthCallbackServer } from './oauth-server';
+import { createOAuthCallbackServer, safeEqual, OAuthCallbackTarget } from './oauth-server';
+import { discoverAuthorization, extractInsufficientScope, parseWWWAuthenticate } from './discovery';
+import { createClientAssertion, decodeJwt, CLIENT_ASSERTION_TYPE } from './jwt';
+import { validateIdToken, identityFromClaims, Identity, IdTokenClaims, JsonWebKeySet, UserInfo } from './oidc';
+import { generateDPoPKey, createDPoPProof, dpopKeyThumbprint } from './dpop';
+import { HttpClient } from './http';
+import {
+  OAuthError,
+  RegistrationError,
+  DeviceAuthorizationError,
+  TokenExchangeError,
+  RefreshError,
+  RevocationError,
+  AuthorizationDeniedError,
+  AuthTimeoutError,
+  IdentityError,
+  getOAuthErrorDetails,
+  toOAuthError
+} from './errors';
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 export class OAuthClientProvider implements IOAuthClientProvider {
   private options: OAuthClientProviderOptions;
   private events: EventEmitter;
+  private emitter = new EventEmitter();
+  private logger: OAuthLogger;
+  private http: HttpClient;
   private authServer?: Server;
+  private pendingCallback?: OAuthCallbackTarget & { state: string };
+  private callbackPort?: number;
   private authenticationPromise?: Promise<void>;
   private authInitialized = false;
   private serverUrlHash: string;
   private tokenStorage: TokenStorage;
   private discoveryDocument?: AuthorizationServerMetadata;
+  private resourceMetadata?: OAuthProtectedResourceMetadata;
+  private discoveryFromCache = false;
+  private authorizationServerUrl?: string;
+  private authFlow?: 'browser' | 'device' | 'client_credentials';
+  private requestedScopes?: string[];
   private clientInfo?: OAuthClientInformationFull;
   private _codeVerifier?: string;
+  private refreshPromise?: Promise<OAuthTokens>;
+  private clientCredentialsPromise?: Promise<void>;
+  private refreshTimer?: NodeJS.Timeout;
+  private dpopKey?: Promise<KeyObject>;
+  private dpopNonces = new Map<string, string>();
+  private jwks?: JsonWebKeySet;
+  private lastIdentity?: Identity;
+  private closing = false;
 
   constructor(options: OAuthClientProviderOptions) {
     this.options = {
@@ -45,35 +113,113 @@ export class OAuthClientProvider implements IOAuthClientProvider {
       clientName: options.clientName || 'MCP OAuth Client',
       clientUri: options.clientUri || 'https://modelcontextprotocol.io',
       softwareId: options.softwareId || 'mcp-oauth-client',
-      softwareVersion: options.softwareVersion || '1.0.0'
+      softwareVersion: options.softwareVersion || '1.0.0',
+      refreshSkewSeconds: options.refreshSkewSeconds ?? 60,
+      backgroundRefresh: options.backgroundRefresh === true,
+      authFlow: options.authFlow || 'auto',
+      grantType: options.grantType || 'authorization_code',
+      authorizationTimeoutMs: options.authorizationTimeoutMs ?? 5 * 60 * 1000
     };
     
     this.events = new EventEmitter();
-    this.serverUrlHash = getServerUrlHash(options.serverUrl);
-    this.tokenStorage = new FileTokenStorage(options.configDir);
+    this.logger = options.logger ? createRedactingLogger(options.logger) : getDefaultLogger();
+    this.http = new HttpClient({ ...options.http, logger: options.http?.logger || this.logger });
+    this.serverUrlHash = getServerUrlHash(options.serverUrl, options.profile);
+    this.tokenStorage = options.storage || new FileTokenStorage(options.configDir, {
+      encryptionKey: options.encryptionKey,
+      encryptionKeyFile: options.encryptionKeyFile
+    });
+  }
+
+  /**
+   * Subscribes to a lifecycle event, e.g. to drive a status indicator.
+   */
+  on<E extends keyof OAuthProviderEvents>(event: E, listener: OAuthProviderEvents[E]): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends keyof OAuthProviderEvents>(event: E, listener: OAuthProviderEvents[E]): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends keyof OAuthProviderEvents>(event: E, listener: OAuthProviderEvents[E]): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  private emit<E extends keyof OAuthProviderEvents>(event: E, ...args: Parameters<OAuthProviderEvents[E]>): void {
+    try {
+      this.emitter.emit(event, ...args);
+    } catch (error) {
+      // A failing listener must not break the authentication flow
+      this.logger.warn(`Listener for ${event} threw`, error);
+    }
+  }
+
+  /** The profile whose credentials are in use, see `selectProfile()` */
+  get profile(): string {
+    return this.options.profile || DEFAULT_PROFILE;
   }
 
   get redirectUrl(): string | URL {
-    return `http://${this.options.host}:${this.options.callbackPort}${this.options.callbackPath}`;
+    if (this.options.redirectUri) {
+      return this.options.redirectUri;
+    }
+    const port = this.callbackPort ?? this.options.callbackPort;
+    return `http://${this.options.host}:${port}${this.options.callbackPath}`;
+  }
+
+  /**
+   * Whether the browser flow's redirect URI is settled: the host's `redirectUri`, or our callback
+   * URL once the callback server listens. Refreshes in a fresh process do not know it yet.
+   */
+  private get redirectUrlKnown(): boolean {
+    return this.authFlow === 'browser' && (Boolean(this.options.redirectUri) || this.callbackPort !== undefined);
   }
 
   get clientMetadata(): OAuthClientMetadata {
     return this.options.staticOAuthClientMetadata || {
       client_name: this.options.clientName!,
       client_uri: this.options.clientUri!,
-      redirect_uris: [this.redirectUrl.toString()],
-      grant_types: ['authorization_code', 'refresh_token'],
+      // Only the browser flow redirects back to us
+      redirect_uris: this.authFlow === 'device' || this.authFlow === 'client_credentials'
+        ? []
+        : [this.redirectUrl.toString()],
+      grant_types: this.grantTypes,
       response_types: ['code'],
+      scope: this.requestedScopes?.join(' '),
+      token_endpoint_auth_method: this.options.tokenEndpointAuthMethod
+        || (this.options.clientAssertionKey ? 'private_key_jwt' : undefined),
       software_id: this.options.softwareId!,
       software_version: this.options.softwareVersion!
     };
   }
 
+  private get grantTypes(): string[] {
+    switch (this.authFlow) {
+      case 'client_credentials':
+        return ['client_credentials'];
+      case 'device':
+        return [DEVICE_CODE_GRANT_TYPE, 'refresh_token'];
+      default:
+        return ['authorization_code', 'refresh_token'];
+    }
+  }
+
+  /**
+   * The RFC 8707 resource indicator sent with authorization and token requests: the
+   * `authorizeResource` option if set, otherwise the resource from Protected Resource Metadata.
+   */
+  get resource(): string | undefined {
+    return this.options.authorizeResource || this.resourceMetadata?.resource;
+  }
+
   async clientInformation(): Promise<OAuthClientInformationFull | undefined> {
     if (!this.clientInfo) {
       // Try to load from storage
-      const storage = this.tokenStorage as FileTokenStorage;
-      this.clientInfo = await storage.getClientInfo(this.serverUrlHash) || undefined;
+      this.clientInfo = await this.tokenStorage.getClientInfo(this.serverUrlHash) || undefined;
     }
     return this.clientInfo;
   }
@@ -81,31 +227,30 @@ export class OAuthClientProvider implements IOAuthClientProvider {
   async saveClientInformation(clientInformation: OAuthClientInformationFull): Promise<void> {
     this.clientInfo = clientInformation;
     // Also save to storage
-    const storage = this.tokenStorage as FileTokenStorage;
-    await storage.saveClientInfo(this.serverUrlHash, clientInformation);
+    await this.tokenStorage.saveClientInfo(this.serverUrlHash, clientInformation);
   }
 
   async tokens(): Promise<OAuthTokens | undefined> {
-    if (DEBUG) debugLog('tokens() called');
+    this.logger.debug('tokens() called');
     
     // If we're in the authentication process, return undefined to prevent recursion
     if (this.authenticationPromise) {
-      if (DEBUG) debugLog('Already authenticating, returning undefined');
+      this.logger.debug('Already authenticating, returning undefined');
       return undefined;
     }
     
-    // Try to get existing tokens
-    const existingTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    // Try to get existing tokens, refreshing them if they are about to expire
+    const existingTokens = await this.getValidTokens();
     
-    if (DEBUG) debugLog('Existing tokens:', existingTokens ? 'Found' : 'Not found');
+    this.logger.debug('Existing tokens:', existingTokens ? 'Found' : 'Not found');
     
     // If no tokens and auto-authenticate is enabled, trigger authentication
     if (!existingTokens && this.options.autoAuthenticate && !this.authInitialized) {
-      log('No tokens found, triggering automatic authentication...');
+      this.logger.info('No tokens found, triggering automatic authentication...');
       await this.ensureAuthenticated();
       // Return tokens after authentication
       const newTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
-      if (DEBUG) debugLog('Tokens after auth:', newTokens ? 'Found' : 'Not found');
+      this.logger.debug('Tokens after auth:', newTokens ? 'Found' : 'Not found');
       return newTokens || undefined;
     }
     
@@ -113,27 +258,276 @@ export class OAuthClientProvider implements IOAuthClientProvider {
   }
 
   async saveTokens(tokens: OAuthTokens): Promise<void> {
-    await this.tokenStorage.saveTokens(this.serverUrlHash, tokens);
-    if (DEBUG) debugLog('Tokens saved successfully');
+    await this.persistTokens(tokens);
+  }
+
+  private async persistTokens(tokens: OAuthTokens): Promise<StoredOAuthTokens> {
+    if (this.options.dpop && tokens.token_type?.toLowerCase() !== 'dpop') {
+      this.logger.warn(`Requested DPoP-bound tokens but received token_type ${tokens.token_type}`);
+    }
+    const storedTokens: StoredOAuthTokens = { ...tokens };
+    if (tokens.expires_in !== undefined) {
+      storedTokens.expires_at = Math.floor(Date.now() / 1000) + tokens.expires_in;
+    }
+    await this.tokenStorage.saveTokens(this.serverUrlHash, storedTokens);
+    this.logger.debug('Tokens saved successfully');
+    this.emit('tokens-saved', {
+      expiresAt: storedTokens.expires_at,
+      scope: storedTokens.scope,
+      hasRefreshToken: Boolean(storedTokens.refresh_token)
+    });
+    this.scheduleRefresh(storedTokens);
+    return storedTokens;
+  }
+
+  /**
+   * Loads stored tokens, refreshing them first when they expire within `refreshSkewSeconds`.
+   * Returns null when there are no usable tokens, including when the refresh token was rejected.
+   */
+  private async getValidTokens(): Promise<StoredOAuthTokens | null> {
+    const existingTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    if (!existingTokens) {
+      return null;
+    }
+
+    if (!isTokenExpired(existingTokens, this.options.refreshSkewSeconds)) {
+      this.scheduleRefresh(existingTokens);
+      return existingTokens;
+    }
+
+    const isClientCredentials = this.options.grantType === 'client_credentials';
+    if (!existingTokens.refresh_token && !isClientCredentials) {
+      this.logger.debug('Tokens expiring and no refresh token available');
+      return isTokenExpired(existingTokens) ? null : existingTokens;
+    }
+
+    try {
+      if (existingTokens.refresh_token) {
+        await this.refreshTokens(existingTokens.refresh_token);
+      } else {
+        // Client credentials tokens are simply requested again, unless another process already did
+        await this.withStorageLock(async () => {
+          const currentTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+          if (!currentTokens || isTokenExpired(currentTokens, this.options.refreshSkewSeconds)) {
+            await this.requestClientCredentialsTokens();
+          }
+        });
+      }
+      return await this.tokenStorage.getTokens(this.serverUrlHash);
+    } catch (error: any) {
+      if (error instanceof RefreshError && error.code === 'invalid_grant') {
+        // Refresh token was rejected and the tokens were invalidated; authenticate again
+        this.logger.info('Refresh token rejected, re-authentication required');
+        this.authInitialized = false;
+        return null;
+      }
+      const currentTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+      if (currentTokens && !isTokenExpired(currentTokens)) {
+        this.logger.debug('Token refresh failed, using current access token until it expires', error.message);
+        return currentTokens;
+      }
+      throw error;
+    }
+  }
+
+  private scheduleRefresh(tokens: StoredOAuthTokens): void {
+    const canRenew = Boolean(tokens.refresh_token) || this.options.grantType === 'client_credentials';
+    if (!this.options.backgroundRefresh || !canRenew || tokens.expires_at === undefined) {
+      return;
+    }
+
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+
+    const refreshAt = (tokens.expires_at - this.options.refreshSkewSeconds!) * 1000;
+    // setTimeout overflows past ~24.8 days; the timer is re-armed when it fires early
+    const delay = Math.min(Math.max(refreshAt - Date.now(), 0), 0x7fffffff);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.getValidTokens().catch((error) => {
+        this.logger.debug('Background token refresh failed', error);
+      });
+    }, delay);
+    this.refreshTimer.unref();
+    this.logger.debug(`Background refresh scheduled in ${Math.round(delay / 1000)}s`);
   }
 
   async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
-    log(`Opening browser for authentication: ${authorizationUrl.toString()}`);
+    this.emit('authorization-url', { url: authorizationUrl.toString() });
+    if (this.options.onAuthorizationUrl) {
+      await this.options.onAuthorizationUrl(authorizationUrl);
+      return;
+    }
+    this.logger.info(`Opening browser for authentication: ${authorizationUrl.toString()}`);
     await open(authorizationUrl.toString());
   }
 
+  /**
+   * Finishes a pending browser authorization from a redirect captured outside the callback server,
+   * e.g. by a custom URI scheme handler or an embedded browser window. Accepts the full redirect
+   * URL, whose `state` and `iss` are checked, or a bare authorization code. Resolves once the code
+   * has been exchanged for tokens. An authorization started by a previous process is resumed from
+   * its stored session until the session expires.
+   */
+  async completeAuthorization(callbackUrlOrCode: string | URL): Promise<void> {
+    const pending = this.pendingCallback;
+    const authentication = this.authenticationPromise;
+
+    let params: URLSearchParams | undefined;
+    if (callbackUrlOrCode instanceof URL) {
+      params = callbackUrlOrCode.searchParams;
+    } else {
+      try {
+        const url = new URL(callbackUrlOrCode.trim());
+        params = url.search ? url.searchParams : undefined;
+      } catch {
+        // Not a URL, so a code copied by the user
+      }
+    }
+
+    if (!pending || !authentication) {
+      if (authentication) {
+        throw new Error('No authorization in progress');
+      }
+      return this.resumeAuthorization(callbackUrlOrCode.toString().trim(), params);
+    }
+
+    if (!params) {
+      this.events.emit('auth-code', callbackUrlOrCode.toString().trim());
+      return authentication;
+    }
+
+    const state = params.get('state');
+    if (!state || !safeEqual(state, pending.state)) {
+      throw new Error('Callback state does not match the pending authorization');
+    }
+
+    const iss = params.get('iss');
+    const error = params.get('error');
+    const code = params.get('code');
+    if (pending.issuer && (iss ? iss !== pending.issuer : pending.requireIssuer)) {
+      this.events.emit('auth-error', 'invalid_issuer');
+    } else if (error) {
+      this.events.emit('auth-error', error, params.get('error_description') || undefined);
+    } else if (code) {
+      this.events.emit('auth-code', code);
+    } else {
+      throw new Error('Callback URL contains neither a code nor an error');
+    }
+    return authentication;
+  }
+
+  /**
+   * Completes an authorization from its stored session, e.g. one started before a restart.
+   */
+  private async resumeAuthorization(callbackUrlOrCode: string, params?: URLSearchParams): Promise<void> {
+    const session = await this.loadAuthorizationSession();
+    if (!session) {
+      throw new Error('No authorization in progress');
+    }
+    const state = params?.get('state');
+    if (params && (!state || !safeEqual(state, session.state))) {
+      throw new Error('Callback state does not match the pending authorization');
+    }
+    this.logger.info('Resuming stored authorization session');
+
+    this.authenticationPromise = this.withStorageLock(async () => {
+      try {
+        await this.ensureClientReady();
+        if (this.clientInfo!.client_id !== session.clientId) {
+          throw new Error('The client of the pending authorization is no longer registered');
+        }
+
+        let code = callbackUrlOrCode;
+        if (params) {
+          const issuer = this.discoveryDocument!.issuer;
+          const requireIssuer = this.discoveryDocument!.authorization_response_iss_parameter_supported === true;
+          const iss = params.get('iss');
+          const error = (iss ? iss !== issuer : requireIssuer) ? 'invalid_issuer' : params.get('error');
+          const description = error === 'invalid_issuer' ? undefined : params.get('error_description') || undefined;
+          this.emit('callback-received', error ? { error, errorDescription: description } : {});
+          if (error) {
+            throw new AuthorizationDeniedError(
+              `Authentication error: ${description ? `${error} (${description})` : error}`,
+              { code: error, description, endpoint: this.discoveryDocument!.authorization_endpoint }
+            );
+          }
+          const callbackCode = params.get('code');
+          if (!callbackCode) {
+            throw new Error('Callback URL contains neither a code nor an error');
+          }
+          code = callbackCode;
+        }
+
+        await this.exchangeCodeForTokens(code, session);
+        this.authInitialized = true;
+      } finally {
+        await this.endAuthorizationSession();
+      }
+    });
+
+    try {
+      await this.authenticationPromise;
+    } finally {
+      this.authenticationPromise = undefined;
+    }
+  }
+
+  /**
+   * The stored authorization session, if any. Expired sessions are removed together with the
+   * code verifier.
+   */
+  private async loadAuthorizationSession(): Promise<AuthorizationSession | undefined> {
+    const session = await this.tokenStorage.getAuthorizationSession?.(this.serverUrlHash);
+    if (session && session.expiresAt <= Date.now()) {
+      this.logger.debug('Stored authorization session expired');
+      await this.endAuthorizationSession();
+      return undefined;
+    }
+    return session || undefined;
+  }
+
+  private async startAuthorizationSession(state: string, codeVerifier: string, nonce?: string): Promise<AuthorizationSession> {
+    const createdAt = Date.now();
+    const session: AuthorizationSession = {
+      state,
+      codeVerifier,
+      redirectUri: this.redirectUrl.toString(),
+      clientId: this.clientInfo!.client_id,
+      resource: this.resource,
+      scopes: this.requestedScopes,
+      nonce,
+      createdAt,
+      expiresAt: createdAt + this.options.authorizationTimeoutMs!
+    };
+    if (this.tokenStorage.saveAuthorizationSession) {
+      this._codeVerifier = codeVerifier;
+      await this.tokenStorage.saveAuthorizationSession(this.serverUrlHash, session);
+    } else {
+      // Stores without sessions only keep the verifier, which is not enough to resume
+      await this.saveCodeVerifier(codeVerifier);
+    }
+    return session;
+  }
+
+  private async endAuthorizationSession(): Promise<void> {
+    this._codeVerifier = undefined;
+    await this.tokenStorage.deleteCodeVerifier(this.serverUrlHash);
+    await this.tokenStorage.deleteAuthorizationSession?.(this.serverUrlHash);
+  }
+
   async saveCodeVerifier(codeVerifier: string): Promise<void> {
     this._codeVerifier = codeVerifier;
     // Also save to storage
-    const storage = this.tokenStorage as FileTokenStorage;
-    await storage.saveCodeVerifier(this.serverUrlHash, codeVerifier);
+    await this.tokenStorage.saveCodeVerifier(this.serverUrlHash, codeVerifier);
   }
 
   async codeVerifier(): Promise<string> {
     if (!this._codeVerifier) {
       // Try to load from storage
-      const storage = this.tokenStorage as FileTokenStorage;
-      this._codeVerifier = await storage.getCodeVerifier(this.serverUrlHash) || undefined;
+      this._codeVerifier = await this.tokenStorage.getCodeVerifier(this.serverUrlHash)
+        || (await this.loadAuthorizationSession())?.codeVerifier;
       if (!this._codeVerifier) {
         throw new Error('No code verifier saved');
       }
@@ -141,49 +535,100 @@ export class OAuthClientProvider implements IOAuthClientProvider {
     return this._codeVerifier;
   }
 
-  async invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): Promise<void> {
-    const storage = this.tokenStorage as FileTokenStorage;
+  async invalidateCredentials(scope: CredentialScope): Promise<void> {
     switch (scope) {
       case 'all':
         await this.tokenStorage.deleteTokens(this.serverUrlHash);
-        await storage.deleteClientInfo(this.serverUrlHash);
-        await storage.deleteCodeVerifier(this.serverUrlHash);
+        await this.tokenStorage.deleteClientInfo(this.serverUrlHash);
+        await this.tokenStorage.deleteCodeVerifier(this.serverUrlHash);
+        await this.tokenStorage.deleteAuthorizationSession?.(this.serverUrlHash);
+        await this.tokenStorage.deleteDPoPKey?.(this.serverUrlHash);
+        await this.tokenStorage.deleteDiscovery?.(this.serverUrlHash);
         this.clientInfo = undefined;
         this._codeVerifier = undefined;
+        this.dpopKey = undefined;
+        this.discoveryDocument = undefined;
+        this.jwks = undefined;
         break;
       case 'client':
-        await storage.deleteClientInfo(this.serverUrlHash);
+        await this.tokenStorage.deleteClientInfo(this.serverUrlHash);
         this.clientInfo = undefined;
         break;
       case 'tokens':
         await this.tokenStorage.deleteTokens(this.serverUrlHash);
         break;
       case 'verifier':
-        await storage.deleteCodeVerifier(this.serverUrlHash);
-        this._codeVerifier = undefined;
+        await this.endAuthorizationSession();
+        break;
+      case 'discovery':
+        await this.tokenStorage.deleteDiscovery?.(this.serverUrlHash);
+        this.discoveryDocument = undefined;
+        this.jwks = undefined;
         break;
     }
-    if (DEBUG) debugLog(`Credentials invalidated: ${scope}`);
+    this.logger.debug(`Credentials invalidated: ${scope}`);
+    this.emit('credentials-invalidated', { scope });
   }
 
   async ensureAuthenticated(): Promise<void> {
-    log('ensureAuthenticated called');
+    this.logger.info('ensureAuthenticated called');
     
-    // Check if tokens already exist
-    const existingTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    // Check if usable tokens already exist
+    const existingTokens = await this.getValidTokens();
     if (existingTokens?.access_token) {
-      log('Tokens already exist, skipping authentication');
+      this.logger.info('Tokens already exist, skipping authentication');
       return;
     }
     
+    await this.runAuthentication(false);
+  }
+
+  /**
+   * Re-authorizes with additional scopes, e.g. after a resource server answered with
+   * `WWW-Authenticate: Bearer error="insufficient_scope" scope="..."`. Accepts either that
+   * header value or the required scopes, and requests the union of the currently granted
+   * scopes and the new ones.
+   */
+  async stepUpAuthorization(challengeOrScopes: string | string[]): Promise<void> {
+    const requiredScopes = typeof challengeOrScopes === 'string'
+      ? extractInsufficientScope(challengeOrScopes)
+      : challengeOrScopes;
+    if (!requiredScopes) {
+      throw new Error('WWW-Authenticate challenge is not an insufficient_scope error');
+    }
+
+    const existingTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    const currentScopes = existingTokens?.scope?.split(' ').filter(Boolean) || this.requestedScopes || [];
+    this.requestedScopes = Array.from(new Set([...currentScopes, ...requiredScopes]));
+    this.logger.info(`Step-up authorization requesting scopes: ${this.requestedScopes.join(' ')}`);
+
+    await this.runAuthentication(true);
+  }
+
+  /**
+   * Runs the authentication flow at most once per instance, and with a store that supports
+   * locking, at most once across processes. Unless `force`d, a process that waited for the lock
+   * uses the tokens written by the previous holder instead of authenticating again.
+   */
+  private async runAuthentication(force: boolean): Promise<void> {
     // If authentication is already in progress, wait for it
     if (this.authenticationPromise) {
-      if (DEBUG) debugLog('Authentication already in progress, waiting...');
+      this.logger.debug('Authentication already in progress, waiting...');
       return this.authenticationPromise;
     }
 
     // Start authentication process
-    this.authenticationPromise = this._performAuthentication();
+    this.authenticationPromise = this.withStorageLock(async () => {
+      if (!force) {
+        const currentTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+        if (currentTokens && !isTokenExpired(currentTokens, this.options.refreshSkewSeconds)) {
+          this.logger.info('Tokens were obtained by another process, skipping authentication');
+          this.authInitialized = true;
+          return;
+        }
+      }
+      await this._performAuthentication();
+    });
     
     try {
       await this.authenticationPromise;
@@ -193,79 +638,146 @@ export class OAuthClientProvider implements IOAuthClientProvider {
   }
 
   private async _performAuthentication(): Promise<void> {
-    log('Starting automatic authentication flow...');
-    log(`Server URL: ${this.options.serverUrl}`);
-    log(`Callback Port: ${this.options.callbackPort}`);
+    this.logger.info('Starting automatic authentication flow...');
+    this.logger.info(`Server URL: ${this.options.serverUrl}`);
     
     try {
       // Get discovery document
       await this.discoverOAuthEndpoints();
       
-      // Register or use static client
-      await this.registerClient();
-      
-      // Create callback server
-      const authState = await this.initializeAuth();
-      
-      // Perform authorization code flow
-      await this.performAuthorizationCodeFlow(authState);
+      // Pick browser or device flow before registering, so the client asks for the right grant
+      this.authFlow = this.selectAuthFlow();
+      this.logger.debug(`Using ${this.authFlow} authorization flow`);
+
+      if (this.authFlow === 'client_credentials') {
+        // Register or use static client, then obtain tokens directly, no user involved
+        await this.registerClient();
+        await this.performClientCredentialsFlow();
+      } else if (this.authFlow === 'device') {
+        // Register or use static client, then perform device authorization grant
+        await this.registerClient();
+        await this.performDeviceAuthorizationFlow();
+      } else {
+        // Create callback server first, registration needs the port it ends up on
+        const authState = await this.initializeAuth();
+        
+        // Register or use static client
+        await this.registerClient();
+        
+        // Perform authorization code flow
+        await this.performAuthorizationCodeFlow(authState);
+      }
       
-      log('Authentication completed successfully');
+      this.logger.info('Authentication completed successfully');
       this.authInitialized = true;
       
     } catch (error: any) {
-      log(`Authentication failed: ${error.message}`);
-      console.error('Full authentication error:', error);
+      this.logger.error(`Authentication failed: ${error.message}`);
+      this.logger.debug('Authentication error details:', error instanceof OAuthError ? {
+        phase: error.phase,
+        code: error.code,
+        description: error.description,
+        endpoint: error.endpoint,
+        status: error.status
+      } : error);
       throw error;
     }
   }
 
-  private async discoverOAuthEndpoints(): Promise<void> {
-    const discoveryUrl = new URL('/.well-known/oauth-authorization-server', this.options.serverUrl).toString();
-    
-    try {
-      const response = await axios.get<OAuthMetadata>(discoveryUrl);
-      this.discoveryDocument = response.data;
-      if (DEBUG) debugLog('Discovery document:', this.discoveryDocument);
-    } catch (error) {
-      throw new Error(`Failed to fetch OAuth discovery document: ${error}`);
+  /**
+   * Discovers the authorization server, reusing stored results while they are fresh unless
+   * `refresh` is set. Results are stored for the next process when the store supports it.
+   */
+  private async discoverOAuthEndpoints(refresh = false): Promise<void> {
+    const cache = refresh ? undefined : await this.tokenStorage.getDiscovery?.(this.serverUrlHash);
+    const result = await discoverAuthorization(this.options.serverUrl, {
+      resourceMetadataUrl: this.options.resourceMetadataUrl,
+      logger: this.logger,
+      http: this.http,
+      cache: cache || undefined,
+      // PKCE only matters for flows with an authorization code
+      requirePkce: this.options.grantType !== 'client_credentials'
+    });
+    if (result.cache) {
+      await this.tokenStorage.saveDiscovery?.(this.serverUrlHash, result.cache);
+    } else {
+      await this.tokenStorage.deleteDiscovery?.(this.serverUrlHash);
+    }
+    this.discoveryFromCache = result.fromCache;
+    this.discoveryDocument = result.authorizationServerMetadata;
+    this.resourceMetadata = result.resourceMetadata;
+    this.authorizationServerUrl = result.authorizationServerUrl;
+    if (!this.requestedScopes) {
+      this.requestedScopes = this.options.scopes
+        || this.resourceMetadata?.scopes_supported
+        || this.discoveryDocument.scopes_supported;
+      if (this.options.oidc && this.options.grantType !== 'client_credentials' && !this.requestedScopes?.includes('openid')) {
+        this.requestedScopes = ['openid', ...(this.requestedScopes || [])];
+      }
     }
+    this.logger.debug(`Authorization server: ${this.authorizationServerUrl}`);
+    this.logger.debug('Discovery document:', this.discoveryDocument);
+    await this.updateServerMetadata({
+      authorizationServerUrl: result.authorizationServerUrl,
+      issuer: this.discoveryDocument.issuer
+    });
+    this.emit('discovery', {
+      authorizationServerUrl: result.authorizationServerUrl,
+      metadata: result.authorizationServerMetadata,
+      resourceMetadata: result.resourceMetadata
+    });
+  }
+
+  private async updateServerMetadata(update: Partial<StoredServerMetadata>): Promise<void> {
+    if (!this.tokenStorage.saveServerMetadata) {
+      return;
+    }
+    const existing = await this.tokenStorage.getServerMetadata?.(this.serverUrlHash);
+    await this.tokenStorage.saveServerMetadata(this.serverUrlHash, {
+      ...existing,
+      ...update,
+      serverUrl: this.options.serverUrl,
+      profile: this.profile === DEFAULT_PROFILE ? undefined : this.profile,
+      updatedAt: Date.now()
+    });
   }
 
   private async registerClient(): Promise<void> {
     // Use static client info if provided
     if (this.options.staticOAuthClientInfo) {
       this.clientInfo = this.options.staticOAuthClientInfo;
-      if (DEBUG) debugLog('Using static client info');
+      this.logger.debug('Using static client info');
       return;
     }
 
-    // Check if we already have client info saved
+    // Check if we already have client info saved, and that it still covers our flow and callback URL
     const existingClientInfo = await this.clientInformation();
     if (existingClientInfo) {
-      this.clientInfo = existingClientInfo;
-      if (DEBUG) debugLog('Using existing client info from storage');
-      return;
+      const redirectUrl = this.redirectUrl.toString();
+      // RFC 7591 §2: grant_types defaults to authorization_code
+      const grantTypes = existingClientInfo.grant_types || ['authorization_code'];
+      // The selected flow's grant comes first
+      const flowGrantType = this.grantTypes[0];
+      if (!grantTypes.includes(flowGrantType)) {
+        this.logger.info(`Registered client does not allow the ${flowGrantType} grant, registering a new client`);
+      } else if (this.redirectUrlKnown && !existingClientInfo.redirect_uris.includes(redirectUrl)) {
+        this.logger.info(`Registered redirect URI does not match ${redirectUrl}, registering a new client`);
+      } else {
+        this.clientInfo = existingClientInfo;
+        this.logger.debug('Using existing client info from storage');
+        return;
+      }
+      await this.invalidateCredentials('client');
     }
 
     if (!this.discoveryDocument?.registration_endpoint) {
-      throw new Error('No registration endpoint found in discovery document');
+      throw new RegistrationError('No registration endpoint found in discovery document');
     }
 
-    const redirectUri = `http://${this.options.host}:${this.options.callbackPort}${this.options.callbackPath}`;
-    
-    const metadata: OAuthClientMetadata = this.options.staticOAuthClientMetadata || {
-      client_name: this.options.clientName!,
-      client_uri: this.options.clientUri!,
-      redirect_uris: [redirectUri],
-      grant_types: ['authorization_code', 'refresh_token'],
-      response_types: ['code'],
-      software_id: this.options.softwareId!,
-      software_version: this.options.softwareVersion!
-    };
+    const metadata = this.clientMetadata;
 
     try {
-      const response = await axios.post<OAuthClientInformationFull>(
+      const response = await this.http.post<OAuthClientInformationFull>(
         this.discoveryDocument.registration_endpoint,
         metadata,
         {
@@ -273,85 +785,776 @@ export class OAuthClientProvider implements IOAuthClientProvider {
         }
       );
       
+      // Validated only: the schema strips fields like registration_client_uri that we keep
+      const parsed = OAuthClientInformationFullSchema.safeParse(response.data);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new RegistrationError(`Invalid client registration response: ${issues}`, {
+          endpoint: this.discoveryDocument.registration_endpoint,
+          responseBody: response.data
+        });
+      }
+
       this.clientInfo = response.data;
-      if (DEBUG) debugLog('Client registered:', this.clientInfo);
+      this.logger.debug('Client registered:', this.clientInfo);
+      this.emit('registered', { clientId: this.clientInfo.client_id, redirectUris: this.clientInfo.redirect_uris });
       
       // Save client info to storage
       await this.saveClientInformation(this.clientInfo);
     } catch (error) {
-      throw new Error(`Failed to register OAuth client: ${error}`);
+      throw toOAuthError(RegistrationError, 'Failed to register OAuth client', error, this.discoveryDocument.registration_endpoint);
     }
   }
 
-  private async initializeAuth(): Promise<AuthState> {
-    // Create callback server
-    this.authServer = await createOAuthCallbackServer({
-      port: this.options.callbackPort,
-      path: this.options.callbackPath!,
-      events: this.events
+  private get deviceAuthorizationEndpoint(): string | undefined {
+    const endpoint = this.discoveryDocument?.device_authorization_endpoint;
+    return typeof endpoint === 'string' ? endpoint : undefined;
+  }
+
+  private selectAuthFlow(): 'browser' | 'device' | 'client_credentials' {
+    if (this.options.grantType === 'client_credentials') {
+      return 'client_credentials';
+    }
+    if (this.options.authFlow === 'device') {
+      if (!this.deviceAuthorizationEndpoint) {
+        throw new DeviceAuthorizationError('No device authorization endpoint found in discovery document');
+      }
+      return 'device';
+    }
+    const hostHandlesRedirect = Boolean(this.options.onAuthorizationUrl || this.options.redirectUri);
+    if (this.options.authFlow === 'auto' && this.deviceAuthorizationEndpoint && !hostHandlesRedirect && !isDisplayAvailable()) {
+      return 'device';
+    }
+    return 'browser';
+  }
+
+  /**
+   * Revokes the stored refresh token and then the access token at the authorization server's
+   * `revocation_endpoint` (RFC 7009). Local credentials are left untouched, see `logout()`.
+   */
+  async revokeTokens(): Promise<void> {
+    if (!this.discoveryDocument) {
+      await this.discoverOAuthEndpoints();
+    }
+    const endpoint = this.discoveryDocument!.revocation_endpoint;
+    if (typeof endpoint !== 'string') {
+      throw new RevocationError('No revocation endpoint found in discovery document');
+    }
+
+    const clientInfo = this.options.staticOAuthClientInfo || await this.clientInformation();
+    if (!clientInfo) {
+      throw new RevocationError('No registered client to revoke tokens for', { endpoint });
+    }
+
+    const tokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    if (!tokens) {
+      this.logger.debug('No tokens to revoke');
+      return;
+    }
+
+    // Revoking the refresh token first keeps it from minting new access tokens meanwhile
+    if (tokens.refresh_token) {
+      await this.revokeToken(endpoint, clientInfo, tokens.refresh_token, 'refresh_token');
+    }
+    await this.revokeToken(endpoint, clientInfo, tokens.access_token, 'access_token');
+    this.logger.info('Tokens revoked');
+  }
+
+  private async revokeToken(
+    endpoint: string,
+    clientInfo: OAuthClientInformationFull,
+    token: string,
+    tokenTypeHint: 'access_token' | 'refresh_token'
+  ): Promise<void> {
+    const revocationData: Record<string, string> = {
+      token,
+      token_type_hint: tokenTypeHint
+    };
+
+    try {
+      await this.postForm(endpoint, revocationData, clientInfo, { idempotent: true });
+    } catch (error: any) {
+      // Servers may refuse to revoke access tokens (RFC 7009 §2.2.1); they expire on their own
+      if (tokenTypeHint === 'access_token' && error.response?.data?.error === 'unsupported_token_type') {
+        this.logger.debug('Authorization server does not revoke access tokens');
+        return;
+      }
+      throw toOAuthError(RevocationError, `Failed to revoke ${tokenTypeHint}`, error, endpoint);
+    }
+  }
+
+  /**
+   * Deletes the dynamically registered client at its client configuration endpoint (RFC 7592).
+   * Requires the `registration_client_uri` and `registration_access_token` returned at registration.
+   */
+  async deleteClientRegistration(): Promise<void> {
+    // RFC 7592 client configuration fields are kept as returned by the registration endpoint
+    const clientInfo = await this.clientInformation() as Record<string, unknown> | undefined;
+    const configurationUri = clientInfo?.registration_client_uri;
+    const registrationToken = clientInfo?.registration_access_token;
+    if (typeof configurationUri !== 'string' || typeof registrationToken !== 'string') {
+      throw new RegistrationError('Client registration cannot be deleted: no client configuration endpoint');
+    }
+
+    try {
+      await this.http.delete(configurationUri, {
+        headers: { Authorization: `Bearer ${registrationToken}` }
+      });
+      this.logger.info('Client registration deleted');
+    } catch (error) {
+      throw toOAuthError(RegistrationError, 'Failed to delete client registration', error, configurationUri);
+    }
+  }
+
+  /**
+   * Signs out: revokes the tokens at the authorization server, optionally deletes the client
+   * registration, and then clears the local credentials. Local state is kept when revocation
+   * fails, unless `force` is set.
+   */
+  async logout(options: LogoutOptions = {}): Promise<void> {
+    await this.withStorageLock(async () => {
+      try {
+        await this.revokeTokens();
+      } catch (error) {
+        if (!options.force) {
+          throw error;
+        }
+        this.logger.warn('Token revocation failed, clearing local credentials anyway', error);
+      }
+
+      if (options.deleteClient) {
+        try {
+          await this.deleteClientRegistration();
+        } catch (error) {
+          if (!options.force) {
+            throw error;
+          }
+          this.logger.warn('Client deletion failed, clearing local credentials anyway', error);
+        }
+      }
+
+      if (this.refreshTimer) {
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = undefined;
+      }
+      this.authInitialized = false;
+      if (options.deleteClient) {
+        await this.invalidateCredentials('all');
+      } else {
+        await this.invalidateCredentials('tokens');
+        await this.invalidateCredentials('verifier');
+      }
     });
+    this.logger.info('Logged out');
+  }
+
+  /**
+   * The client authentication method for requests to the authorization server: the method the
+   * client was registered with, otherwise `tokenEndpointAuthMethod`, otherwise the best method
+   * among `token_endpoint_auth_methods_supported` for the credentials we have.
+   */
+  private getTokenEndpointAuthMethod(clientInfo: OAuthClientInformationFull): TokenEndpointAuthMethod {
+    if (clientInfo.token_endpoint_auth_method) {
+      return clientInfo.token_endpoint_auth_method as TokenEndpointAuthMethod;
+    }
+
+    // RFC 8414 §2: client_secret_basic is the default when the server lists nothing
+    const supported = this.discoveryDocument?.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+    const configured = this.options.tokenEndpointAuthMethod;
+    if (configured) {
+      if (!supported.includes(configured)) {
+        this.logger.warn(`Authorization server does not list ${configured} as supported, using it anyway`);
+      }
+      return configured;
+    }
+
+    const hasSecret = Boolean(clientInfo.client_secret);
+    if (this.options.clientAssertionKey && (supported.includes('private_key_jwt') || !hasSecret)) {
+      return 'private_key_jwt';
+    }
+    if (!hasSecret) {
+      return 'none';
+    }
+    if (!supported.includes('client_secret_basic') && supported.includes('client_secret_post')) {
+      return 'client_secret_post';
+    }
+    return 'client_secret_basic';
+  }
+
+  /**
+   * Adds client authentication to a form request for the token, device authorization or
+   * revocation endpoint (RFC 6749 §2.3, RFC 7523 §2.2).
+   */
+  private applyClientAuthentication(
+    params: Record<string, string>,
+    headers: Record<string, string>,
+    clientInfo: OAuthClientInformationFull
+  ): void {
+    const method = this.getTokenEndpointAuthMethod(clientInfo);
+    switch (method) {
+      case 'client_secret_basic': {
+        if (!clientInfo.client_secret) {
+          throw new Error('client_secret_basic authentication requires a client secret');
+        }
+        // RFC 6749 §2.3.1: both parts are form-encoded before being joined
+        const formEncode = (value: string) => encodeURIComponent(value).replace(/%20/g, '+');
+        const credentials = `${formEncode(clientInfo.client_id)}:${formEncode(clientInfo.client_secret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        break;
+      }
+      case 'client_secret_post':
+        if (!clientInfo.client_secret) {
+          throw new Error('client_secret_post authentication requires a client secret');
+        }
+        params.client_id = clientInfo.client_id;
+        params.client_secret = clientInfo.client_secret;
+        break;
+      case 'private_key_jwt':
+        if (!this.options.clientAssertionKey || !this.discoveryDocument) {
+          throw new Error('private_key_jwt authentication requires clientAssertionKey');
+        }
+        params.client_id = clientInfo.client_id;
+        params.client_assertion_type = CLIENT_ASSERTION_TYPE;
+        params.client_assertion = createClientAssertion(
+          clientInfo.client_id,
+          this.discoveryDocument.token_endpoint,
+          this.options.clientAssertionKey
+        );
+        break;
+      case 'none':
+        params.client_id = clientInfo.client_id;
+        break;
+      default:
+        throw new Error(`Unsupported token endpoint authentication method: ${method}`);
+    }
+  }
+
+  /**
+   * Posts a form to an authorization server endpoint with client authentication, which is
+   * recomputed per request because client assertions are single-use. With `dpop`, a DPoP proof
+   * is attached and a `use_dpop_nonce` challenge is answered by retrying once with the nonce.
+   * Only `idempotent` requests are retried after network errors.
+   */
+  private async postForm<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    clientInfo: OAuthClientInformationFull,
+    options: { dpop?: boolean; idempotent?: boolean } = {}
+  ): Promise<AxiosResponse<T>> {
+    const send = () => this.http.request<T>(async () => {
+      const data = { ...params };
+      const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+      this.applyClientAuthentication(data, headers, clientInfo);
+      if (options.dpop && this.options.dpop) {
+        headers.DPoP = await this.createDPoPProof('POST', endpoint);
+      }
+      return {
+        method: 'post',
+        url: endpoint,
+        data: new URLSearchParams(data).toString(),
+        headers,
+        idempotent: options.idempotent
+      };
+    });
+
+    try {
+      const response = await send();
+      this.recordDPoPNonce(endpoint, response.headers['dpop-nonce']);
+      return response;
+    } catch (error: any) {
+      const nonce = error.response?.headers?.['dpop-nonce'];
+      if (!options.dpop || !this.options.dpop || !nonce) {
+        throw error;
+      }
+      this.recordDPoPNonce(endpoint, nonce);
+      if (error.response?.data?.error !== 'use_dpop_nonce') {
+        throw error;
+      }
+      this.logger.debug('Retrying with the DPoP nonce provided by the authorization server');
+      const response = await send();
+      this.recordDPoPNonce(endpoint, response.headers['dpop-nonce']);
+      return response;
+    }
+  }
+
+  /**
+   * Runs a request against an endpoint from stored discovery results. When it fails in a way that
+   * suggests the results are outdated (a network error, or a 404 or 5xx without an OAuth error),
+   * discovery is run again and the request retried once.
+   */
+  private async withFreshDiscovery<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error: any) {
+      const status = error?.response?.status;
+      const outdated = !error?.response?.data?.error && (status === undefined || status === 404 || status >= 500);
+      if (!this.discoveryFromCache || !outdated) {
+        throw error;
+      }
+      this.logger.info('Request with cached discovery results failed, discovering again');
+      await this.discoverOAuthEndpoints(true);
+      return request();
+    }
+  }
+
+  private getDPoPKey(): Promise<KeyObject> {
+    if (!this.dpopKey) {
+      this.dpopKey = (async () => {
+        let jwk = await this.tokenStorage.getDPoPKey?.(this.serverUrlHash);
+        if (!jwk) {
+          jwk = generateDPoPKey();
+          if (this.tokenStorage.saveDPoPKey) {
+            await this.tokenStorage.saveDPoPKey(this.serverUrlHash, jwk);
+          } else {
+            this.logger.debug('Token storage cannot persist DPoP keys, using a key for this session only');
+          }
+        }
+        return crypto.createPrivateKey({ key: jwk, format: 'jwk' });
+      })();
+      this.dpopKey.catch(() => {
+        this.dpopKey = undefined;
+      });
+    }
+    return this.dpopKey;
+  }
+
+  private async createDPoPProof(method: string, url: string | URL, accessToken?: string): Promise<string> {
+    const key = await this.getDPoPKey();
+    const nonce = this.dpopNonces.get(new URL(url.toString()).origin);
+    return createDPoPProof(key, method, url, { nonce, accessToken });
+  }
+
+  /**
+   * Remembers the latest `DPoP-Nonce` of a server; nonces are scoped to the server that issued them.
+   */
+  recordDPoPNonce(url: string | URL, nonce: string | null | undefined): void {
+    if (nonce) {
+      this.dpopNonces.set(new URL(url.toString()).origin, nonce);
+    }
+  }
+
+  /**
+   * A DPoP proof for a request to the MCP server, bound to the current access token, or
+   * undefined when DPoP is not enabled. Send it as the `DPoP` header together with
+   * `Authorization: DPoP <access token>`.
+   */
+  async getDPoPProof(method: string, url: string | URL, accessToken?: string): Promise<string | undefined> {
+    if (!this.options.dpop) {
+      return undefined;
+    }
+    const token = accessToken ?? (await this.tokens())?.access_token;
+    return this.createDPoPProof(method, url, token);
+  }
+
+  /**
+   * Wraps `fetch` for use as the MCP transport's `fetch` option. With DPoP enabled, the transport's
+   * `Authorization: Bearer` header is turned into `Authorization: DPoP` with a proof, and a
+   * `use_dpop_nonce` challenge from the resource server is answered by retrying once.
+   */
+  createDPoPFetch(baseFetch: FetchLike = this.options.http?.fetch || fetch): FetchLike {
+    return async (url, init) => {
+      if (!this.options.dpop) {
+        return baseFetch(url, init);
+      }
+
+      const send = async () => {
+        const headers = new Headers(init?.headers);
+        const match = headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+        if (match) {
+          headers.set('Authorization', `DPoP ${match[1]}`);
+          headers.set('DPoP', await this.createDPoPProof(init?.method || 'GET', url, match[1]));
+        }
+        return baseFetch(url, { ...init, headers });
+      };
+
+      const response = await send();
+      const nonce = response.headers.get('DPoP-Nonce');
+      this.recordDPoPNonce(url, nonce);
+      const challenge = parseWWWAuthenticate(response.headers.get('WWW-Authenticate'));
+      if (response.status === 401 && nonce && challenge.error === 'use_dpop_nonce') {
+        this.logger.debug('Retrying with the DPoP nonce provided by the resource server');
+        return send();
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Makes sure discovery has run and a client is available, for calls made outside
+   * `ensureAuthenticated()` such as refreshes in a fresh process.
+   */
+  private async ensureClientReady(): Promise<void> {
+    if (!this.discoveryDocument) {
+      await this.discoverOAuthEndpoints();
+    }
+    if (!this.clientInfo) {
+      this.authFlow = this.authFlow || this.selectAuthFlow();
+      await this.registerClient();
+    }
+  }
+
+  private requestClientCredentialsTokens(): Promise<void> {
+    if (!this.clientCredentialsPromise) {
+      this.clientCredentialsPromise = this.ensureClientReady()
+        .then(() => this.performClientCredentialsFlow())
+        .finally(() => {
+          this.clientCredentialsPromise = undefined;
+        });
+    }
+    return this.clientCredentialsPromise;
+  }
+
+  private async performClientCredentialsFlow(): Promise<void> {
+    if (!this.discoveryDocument || !this.clientInfo) {
+      throw new Error('Missing discovery document or client info');
+    }
+
+    if (this.getTokenEndpointAuthMethod(this.clientInfo) === 'none') {
+      throw new TokenExchangeError('Client credentials grant requires a client secret or a client assertion key');
+    }
+
+    const tokenData: Record<string, string> = {
+      grant_type: 'client_credentials'
+    };
+
+    if (this.requestedScopes?.length) {
+      tokenData.scope = this.requestedScopes.join(' ');
+    }
+
+    if (this.resource) {
+      tokenData.resource = this.resource;
+    }
+
+    try {
+      const response = await this.withFreshDiscovery(() => this.postForm<OAuthTokens>(
+        this.discoveryDocument!.token_endpoint,
+        tokenData,
+        this.clientInfo!,
+        { dpop: true }
+      ));
+
+      await this.saveTokens(response.data);
+      this.logger.info('Client credentials tokens obtained and saved successfully');
+    } catch (error) {
+      throw toOAuthError(
+        TokenExchangeError,
+        'Failed to obtain client credentials tokens',
+        error,
+        this.discoveryDocument.token_endpoint
+      );
+    }
+  }
+
+  private async performDeviceAuthorizationFlow(): Promise<void> {
+    const endpoint = this.deviceAuthorizationEndpoint;
+    if (!this.discoveryDocument || !this.clientInfo || !endpoint) {
+      throw new Error('Missing discovery document or client info');
+    }
+
+    const requestData: Record<string, string> = {};
+
+    if (this.requestedScopes?.length) {
+      requestData.scope = this.requestedScopes.join(' ');
+    }
+
+    if (this.resource) {
+      requestData.resource = this.resource;
+    }
+
+    let deviceAuthorization: DeviceAuthorizationResponse;
+    try {
+      const response = await this.postForm<DeviceAuthorizationResponse>(endpoint, requestData, this.clientInfo);
+      deviceAuthorization = response.data;
+    } catch (error) {
+      throw toOAuthError(DeviceAuthorizationError, 'Failed to start device authorization', error, endpoint);
+    }
+
+    const info: DeviceAuthorizationInfo = {
+      userCode: deviceAuthorization.user_code,
+      verificationUri: deviceAuthorization.verification_uri,
+      verificationUriComplete: deviceAuthorization.verification_uri_complete,
+      expiresIn: deviceAuthorization.expires_in
+    };
+    this.emit('device-code', info);
+    if (this.options.onDeviceCode) {
+      await this.options.onDeviceCode(info);
+    } else {
+      this.logger.info(`To authenticate, visit ${info.verificationUri} and enter the code: ${info.userCode}`);
+    }
+
+    const tokenData: Record<string, string> = {
+      grant_type: DEVICE_CODE_GRANT_TYPE,
+      device_code: deviceAuthorization.device_code
+    };
+
+    if (this.resource) {
+      tokenData.resource = this.resource;
+    }
+
+    // RFC 8628 §3.5: poll at the given interval, backing off by 5 seconds on slow_down
+    let interval = (deviceAuthorization.interval ?? 5) * 1000;
+    const deadline = Date.now() + deviceAuthorization.expires_in * 1000;
+    while (Date.now() < deadline) {
+      await sleep(interval);
+      try {
+        const response = await this.postForm<OAuthTokens>(
+          this.discoveryDocument.token_endpoint,
+          tokenData,
+          this.clientInfo,
+          { dpop: true }
+        );
+
+        await this.verifyIdToken(response.data);
+        await this.saveTokens(response.data);
+        this.logger.info('Tokens obtained and saved successfully');
+        return;
+      } catch (error: any) {
+        if (error instanceof IdentityError) {
+          throw error;
+        }
+        const errorCode = error.response?.data?.error;
+        if (errorCode === 'authorization_pending') {
+          continue;
+        }
+        if (errorCode === 'slow_down') {
+          interval += 5000;
+          this.logger.debug(`Device authorization polling slowed to ${interval / 1000}s`);
+          continue;
+        }
+        if (errorCode === 'access_denied') {
+          throw new AuthorizationDeniedError(
+            'Device authorization was denied',
+            getOAuthErrorDetails(error, this.discoveryDocument.token_endpoint)
+          );
+        }
+        if (errorCode === 'expired_token') {
+          throw new AuthTimeoutError(
+            'Device code expired before authorization completed',
+            getOAuthErrorDetails(error, this.discoveryDocument.token_endpoint)
+          );
+        }
+        throw toOAuthError(TokenExchangeError, 'Device authorization failed', error, this.discoveryDocument.token_endpoint);
+      }
+    }
+
+    throw new AuthTimeoutError('Device authorization timeout', { endpoint });
+  }
+
+  private async initializeAuth(): Promise<AuthState> {
+    // Fresh state per attempt, checked by the callback server to reject forged callbacks
+    const state = crypto.randomBytes(32).toString('base64url');
+
+    const target = {
+      events: this.events,
+      issuer: this.discoveryDocument?.issuer,
+      requireIssuer: this.discoveryDocument?.authorization_response_iss_parameter_supported === true,
+      pages: this.options.callbackPages
+    };
+
+    const sharedServer = this.options.callbackServer;
+    if (this.options.redirectUri) {
+      // The host application captures the redirect and hands it to completeAuthorization()
+      this.logger.debug(`Waiting for redirect to ${this.options.redirectUri}`);
+    } else if (sharedServer) {
+      // Callbacks arrive on the shared server and are routed to us by state. Starting it on our
+      // registered port keeps the stored client usable across runs
+      this.callbackPort = await sharedServer.register(state, target, await this.getCallbackPortCandidates());
+    } else {
+      // Create callback server on the first available candidate port
+      const ports = await this.getCallbackPortCandidates();
+      if (ports.length === 0) {
+        throw new Error('No callback ports to try, check callbackPortRange');
+      }
+      this.authServer = await createOAuthCallbackServer({
+        ...target,
+        logger: this.logger,
+        port: ports,
+        path: this.options.callbackPath!,
+        state
+      });
+      this.callbackPort = (this.authServer.address() as AddressInfo).port;
+    }
+    if (this.callbackPort !== undefined) {
+      this.logger.info(`Callback Port: ${this.callbackPort}`);
+    }
+    this.pendingCallback = { ...target, state };
 
     // Create promise that resolves when auth code is received
     const waitForAuthCode = () => new Promise<string>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Authentication timeout'));
-      }, 5 * 60 * 1000); // 5 minute timeout
-
-      this.events.once('auth-code', (code: string) => {
+      const settle = () => {
         clearTimeout(timeout);
+        this.events.off('auth-code', onCode);
+        this.events.off('auth-error', onError);
+        this.events.off('auth-cancel', onCancel);
+        sharedServer?.unregister(state);
+        this.pendingCallback = undefined;
+        void this.closeAuthServer();
+      };
+      const onCode = (code: string) => {
+        settle();
+        this.emit('callback-received', {});
         resolve(code);
-      });
+      };
+      const onError = (error: string, description?: string) => {
+        settle();
+        this.emit('callback-received', { error, errorDescription: description });
+        reject(new AuthorizationDeniedError(
+          `Authentication error: ${description ? `${error} (${description})` : error}`,
+          { code: error, description, endpoint: this.discoveryDocument?.authorization_endpoint }
+        ));
+      };
+      const onCancel = (error: Error) => {
+        settle();
+        reject(error);
+      };
 
-      this.events.once('auth-error', (error: string) => {
-        clearTimeout(timeout);
-        reject(new Error(`Authentication error: ${error}`));
-      });
+      const timeout = setTimeout(() => {
+        settle();
+        reject(new AuthTimeoutError('Authentication timeout'));
+      }, this.options.authorizationTimeoutMs);
+
+      this.events.once('auth-code', onCode);
+      this.events.once('auth-error', onError);
+      this.events.once('auth-cancel', onCancel);
     });
 
     return {
       skipBrowserAuth: false,
+      state,
       waitForAuthCode,
       server: this.authServer
     };
   }
 
+  /**
+   * Ports to try for the callback server, in order. The port from the client's registered
+   * redirect URI comes first when allowed, so a previously registered client can be reused.
+   * Without an explicit `callbackPort` or `callbackPortRange`, an ephemeral port is the last resort.
+   */
+  private async getCallbackPortCandidates(): Promise<number[]> {
+    const explicitPort = this.options.callbackPort || undefined;
+    const range = this.options.callbackPortRange;
+    const inRange = (port: number) => range !== undefined && port >= range[0] && port <= range[1];
+
+    const candidates: number[] = [];
+    const registeredPort = await this.getRegisteredCallbackPort();
+    if (registeredPort !== undefined) {
+      const allowed = registeredPort === explicitPort || inRange(registeredPort) || (!explicitPort && !range);
+      if (allowed) {
+        candidates.push(registeredPort);
+      }
+    }
+    if (explicitPort) {
+      candidates.push(explicitPort);
+    }
+    if (range) {
+      for (let port = range[0]; port <= range[1]; port++) {
+        candidates.push(port);
+      }
+    }
+    if (!explicitPort && !range) {
+      candidates.push(0);
+    }
+    return Array.from(new Set(candidates));
+  }
+
+  private async getRegisteredCallbackPort(): Promise<number | undefined> {
+    const clientInfo = this.options.staticOAuthClientInfo || await this.clientInformation();
+    for (const uri of clientInfo?.redirect_uris || []) {
+      try {
+        const url = new URL(uri);
+        if (url.hostname === this.options.host && url.pathname === this.options.callbackPath && url.port) {
+          return Number(url.port);
+        }
+      } catch {
+        // Not a URL we could have registered
+      }
+    }
+    return undefined;
+  }
+
   private async performAuthorizationCodeFlow(authState: AuthState): Promise<void> {
     if (!this.discoveryDocument || !this.clientInfo) {
       throw new Error('Missing discovery document or client info');
     }
+    const state = authState.state;
+    if (!state) {
+      throw new Error('Missing authorization state');
+    }
 
     // Generate PKCE challenge
     const pkce = await this.generatePKCEChallenge();
     
-    // Save code verifier for later use
-    await this.saveCodeVerifier(pkce.verifier);
-    
     // Build authorization URL
     const authUrl = new URL(this.discoveryDocument.authorization_endpoint);
     authUrl.searchParams.set('client_id', this.clientInfo.client_id);
     authUrl.searchParams.set('response_type', 'code');
-    authUrl.searchParams.set('redirect_uri', this.clientInfo.redirect_uris[0]);
+    authUrl.searchParams.set('redirect_uri', this.redirectUrl.toString());
     authUrl.searchParams.set('code_challenge', pkce.challenge);
     authUrl.searchParams.set('code_challenge_method', 'S256');
+    authUrl.searchParams.set('state', state);
+
+    if (this.requestedScopes?.length) {
+      authUrl.searchParams.set('scope', this.requestedScopes.join(' '));
+    }
     
-    if (this.options.authorizeResource) {
-      authUrl.searchParams.set('resource', this.options.authorizeResource);
+    if (this.resource) {
+      authUrl.searchParams.set('resource', this.resource);
+    }
+
+    // Picks the profile's account when the browser is signed in to several, or lets the user choose
+    const loginHint = this.options.loginHint || (await this.tokenStorage.getServerMetadata?.(this.serverUrlHash))?.account;
+    if (loginHint) {
+      authUrl.searchParams.set('login_hint', loginHint);
+    } else if (this.profile !== DEFAULT_PROFILE) {
+      authUrl.searchParams.set('prompt', 'select_account');
     }
 
-    // Open browser for authentication
-    log(`Opening browser for authentication: ${authUrl.toString()}`);
-    await open(authUrl.toString());
+    // Binds the id_token to this authorization request (OpenID Connect Core §3.1.2.1)
+    const nonce = this.options.oidc ? crypto.randomBytes(16).toString('base64url') : undefined;
+    if (nonce) {
+      authUrl.searchParams.set('nonce', nonce);
+    }
 
-    // Wait for auth code
-    const authCode = await authState.waitForAuthCode();
-    log('Authorization code received');
+    if (this.options.dpop) {
+      // Binds the authorization code to our DPoP key (RFC 9449 §10)
+      authUrl.searchParams.set('dpop_jkt', dpopKeyThumbprint(await this.getDPoPKey()));
+    }
 
-    // Exchange code for tokens
-    await this.exchangeCodeForTokens(authCode, pkce.verifier);
+    // Open browser and wait for auth code, one prompt at a time when a queue is configured
+    let session: AuthorizationSession | undefined;
+    const promptForCode = async () => {
+      // Persisted when the prompt is shown, so it expires together with the wait below
+      session = await this.startAuthorizationSession(state, pkce.verifier, nonce);
+      // Listen before redirecting, the redirect may complete before the browser launch returns
+      const authCode = authState.waitForAuthCode();
+      // The callback may fail while the redirect is still pending; it is handled once we return it
+      authCode.catch(() => undefined);
+      try {
+        await this.redirectToAuthorization(authUrl);
+      } catch (error) {
+        this.events.emit('auth-cancel', error);
+      }
+      return authCode;
+    };
+
+    try {
+      const authCode = this.options.authorizationQueue
+        ? await this.options.authorizationQueue(promptForCode)
+        : await promptForCode();
+      this.logger.info('Authorization code received');
+
+      // Exchange code for tokens
+      await this.exchangeCodeForTokens(authCode, session!);
+    } finally {
+      // A session abandoned by cleanup() is kept, so it can be completed after a restart
+      if (!this.closing) {
+        await this.endAuthorizationSession();
+      }
+    }
   }
 
   private async generatePKCEChallenge(): Promise<{ challenge: string; verifier: string }> {
-    const crypto = await import('crypto');
     const verifier = crypto.randomBytes(32).toString('base64url');
     const challenge = crypto
       .createHash('sha256')
@@ -364,99 +1567,396 @@ export class OAuthClientProvider implements IOAuthClientProvider {
     };
   }
 
-  private async exchangeCodeForTokens(code: string, codeVerifier: string): Promise<void> {
+  private async exchangeCodeForTokens(code: string, session: AuthorizationSession): Promise<void> {
     if (!this.discoveryDocument || !this.clientInfo) {
       throw new Error('Missing discovery document or client info');
     }
 
-    const tokenData: any = {
+    const tokenData: Record<string, string> = {
       grant_type: 'authorization_code',
       code,
-      redirect_uri: this.clientInfo.redirect_uris[0],
-      client_id: this.clientInfo.client_id,
-      code_verifier: codeVerifier
+      redirect_uri: session.redirectUri,
+      code_verifier: session.codeVerifier
     };
 
-    // Add client_secret if available
-    if ('client_secret' in this.clientInfo && this.clientInfo.client_secret) {
-      tokenData.client_secret = this.clientInfo.client_secret;
+    if (session.resource) {
+      tokenData.resource = session.resource;
     }
 
     try {
-      const response = await axios.post<OAuthTokens>(
+      const response = await this.postForm<OAuthTokens>(
         this.discoveryDocument.token_endpoint,
-        new URLSearchParams(tokenData).toString(),
-        {
-          headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
-        }
+        tokenData,
+        this.clientInfo,
+        { dpop: true }
       );
 
+      await this.verifyIdToken(response.data, { nonce: session.nonce });
       await this.saveTokens(response.data);
-      log('Tokens obtained and saved successfully');
+      this.logger.info('Tokens obtained and saved successfully');
     } catch (error) {
-      throw new Error(`Failed to exchange code for tokens: ${error}`);
+      if (error instanceof IdentityError) {
+        throw error;
+      }
+      throw toOAuthError(TokenExchangeError, 'Failed to exchange code for tokens', error, this.discoveryDocument.token_endpoint);
     }
   }
 
   async refreshTokens(refreshToken: string): Promise<OAuthTokens> {
-    if (!this.discoveryDocument || !this.clientInfo) {
-      await this.discoverOAuthEndpoints();
-      await this.registerClient();
+    // Concurrent callers share a single refresh so a rotated refresh token is only used once
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.withStorageLock(async () => {
+        // Another process may have rotated the refresh token while we waited for the lock
+        const currentTokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+        if (currentTokens?.refresh_token && currentTokens.refresh_token !== refreshToken) {
+          if (!isTokenExpired(currentTokens, this.options.refreshSkewSeconds)) {
+            this.logger.debug('Tokens were refreshed by another process');
+            this.scheduleRefresh(currentTokens);
+            return currentTokens;
+          }
+          refreshToken = currentTokens.refresh_token;
+        }
+        return this._refreshTokens(refreshToken);
+      }).finally(() => {
+        this.refreshPromise = undefined;
+      });
     }
+    return this.refreshPromise;
+  }
+
+  private async _refreshTokens(refreshToken: string): Promise<OAuthTokens> {
+    await this.ensureClientReady();
 
     if (!this.discoveryDocument || !this.clientInfo) {
       throw new Error('Missing discovery document or client info');
     }
 
-    const tokenData: any = {
+    const tokenData: Record<string, string> = {
       grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-      client_id: this.clientInfo.client_id
+      refresh_token: refreshToken
     };
 
-    // Add client_secret if available
-    if ('client_secret' in this.clientInfo && this.clientInfo.client_secret) {
-      tokenData.client_secret = this.clientInfo.client_secret;
+    if (this.resource) {
+      tokenData.resource = this.resource;
     }
 
     try {
-      const response = await axios.post<OAuthTokens>(
-        this.discoveryDocument.token_endpoint,
-        new URLSearchParams(tokenData).toString(),
-        {
-          headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
-        }
-      );
+      const response = await this.withFreshDiscovery(() => this.postForm<OAuthTokens>(
+        this.discoveryDocument!.token_endpoint,
+        tokenData,
+        this.clientInfo!,
+        { dpop: true }
+      ));
+
+      // The refresh response may omit the id_token; the one from the sign-in stays valid
+      const previousIdToken = this.options.oidc
+        ? (await this.tokenStorage.getTokens(this.serverUrlHash))?.id_token
+        : undefined;
+      await this.verifyIdToken(response.data, { refresh: true, previousIdToken });
 
       const tokens: OAuthTokens = {
         access_token: response.data.access_token,
         token_type: response.data.token_type,
         expires_in: response.data.expires_in,
         refresh_token: response.data.refresh_token || refreshToken,
-        scope: response.data.scope
+        scope: response.data.scope,
+        id_token: response.data.id_token || previousIdToken
       };
 
-      await this.saveTokens(tokens);
+      const storedTokens = await this.persistTokens(tokens);
+      this.logger.info('Tokens refreshed successfully');
+      this.emit('tokens-refreshed', {
+        expiresAt: storedTokens.expires_at,
+        scope: tokens.scope,
+        hasRefreshToken: Boolean(tokens.refresh_token)
+      });
       return tokens;
     } catch (error) {
-      throw new Error(`Failed to refresh tokens: ${error}`);
+      if (error instanceof IdentityError) {
+        throw error;
+      }
+      const refreshError = toOAuthError(RefreshError, 'Failed to refresh tokens', error, this.discoveryDocument.token_endpoint);
+      this.emit('refresh-failed', { error: refreshError });
+      if (refreshError.code === 'invalid_grant') {
+        await this.invalidateCredentials('tokens');
+      }
+      throw refreshError;
     }
   }
 
-  async cleanup(): Promise<void> {
-    if (this.authServer) {
-      try {
-        await new Promise<void>((resolve, reject) => {
-          this.authServer!.close((err) => {
-            if (err) reject(err);
-            else resolve();
-          });
-        });
-        if (DEBUG) debugLog('Auth server closed');
-      } catch (error) {
-        if (DEBUG) debugLog('Error closing auth server', error);
+  /**
+   * Summarizes the stored credentials for this server without triggering authentication.
+   */
+  async getAuthStatus(): Promise<AuthStatus> {
+    const tokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    return {
+      serverUrl: this.options.serverUrl,
+      authenticated: Boolean(tokens?.access_token) && !isTokenExpired(tokens!),
+      authenticating: Boolean(this.authenticationPromise),
+      expiresAt: tokens?.expires_at,
+      scope: tokens?.scope,
+      canRefresh: Boolean(tokens?.refresh_token),
+      authorizationPending: Boolean(this.pendingCallback) || Boolean(await this.loadAuthorizationSession())
+    };
+  }
+
+  /**
+   * Profiles with credentials for this server, from the store's server metadata. Stores without
+   * `listServers` only report the current profile.
+   */
+  async listProfiles(): Promise<ProfileInfo[]> {
+    const hashes = new Map<string, string>([[this.profile, this.serverUrlHash]]);
+    for (const hash of await this.tokenStorage.listServers?.() || []) {
+      const metadata = await this.tokenStorage.getServerMetadata?.(hash);
+      if (metadata?.serverUrl === this.options.serverUrl) {
+        hashes.set(metadata.profile || DEFAULT_PROFILE, hash);
+      }
+    }
+
+    const profiles: ProfileInfo[] = [];
+    for (const [profile, hash] of hashes) {
+      const [tokens, metadata] = await Promise.all([
+        this.tokenStorage.getTokens(hash),
+        this.tokenStorage.getServerMetadata?.(hash)
+      ]);
+      profiles.push({
+        profile,
+        account: metadata?.account,
+        authenticated: Boolean(tokens?.access_token) && !isTokenExpired(tokens!),
+        active: profile === this.profile
+      });
+    }
+    return profiles.sort((a, b) => a.profile.localeCompare(b.profile));
+  }
+
+  /**
+   * Switches to another profile's credentials, e.g. from a personal to an admin account. A profile
+   * without credentials signs in on next use.
+   */
+  async selectProfile(profile: string): Promise<void> {
+    if (this.authenticationPromise || this.refreshPromise) {
+      throw new Error('Cannot switch profiles while authenticating');
+    }
+    if (profile === this.profile) {
+      return;
+    }
+    this.options.profile = profile;
+    this.serverUrlHash = getServerUrlHash(this.options.serverUrl, profile);
+    this.resetProfileState();
+    this.logger.info(`Switched to profile ${profile}`);
+  }
+
+  /**
+   * Deletes everything stored for a profile without contacting the server; call `logout()` first
+   * to revoke its tokens. Removing the current profile leaves the provider signed out.
+   */
+  async removeProfile(profile: string): Promise<void> {
+    const hash = getServerUrlHash(this.options.serverUrl, profile);
+    if (hash === this.serverUrlHash && (this.authenticationPromise || this.refreshPromise)) {
+      throw new Error('Cannot remove the profile while authenticating');
+    }
+    if (this.tokenStorage.deleteServer) {
+      await this.tokenStorage.deleteServer(hash);
+    } else {
+      await this.tokenStorage.deleteTokens(hash);
+      await this.tokenStorage.deleteClientInfo(hash);
+      await this.tokenStorage.deleteCodeVerifier(hash);
+      await this.tokenStorage.deleteDPoPKey?.(hash);
+      await this.tokenStorage.deleteDiscovery?.(hash);
+      await this.tokenStorage.deleteAuthorizationSession?.(hash);
+    }
+    if (hash === this.serverUrlHash) {
+      this.resetProfileState();
+    }
+    this.logger.info(`Removed profile ${profile}`);
+  }
+
+  /**
+   * Forgets the in-memory credentials of the current profile; discovery results are kept since
+   * they belong to the server.
+   */
+  private resetProfileState(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    this.clientInfo = undefined;
+    this._codeVerifier = undefined;
+    this.dpopKey = undefined;
+    this.lastIdentity = undefined;
+    this.authInitialized = false;
+  }
+
+  /**
+   * The signed-in user from the stored id_token, without contacting the server. Undefined when not
+   * signed in or when the tokens carry no id_token, see the `oidc` option.
+   */
+  async getIdentity(): Promise<Identity | undefined> {
+    const tokens = await this.tokenStorage.getTokens(this.serverUrlHash);
+    if (!tokens?.id_token) {
+      return undefined;
+    }
+    try {
+      return identityFromClaims(decodeJwt(tokens.id_token).payload as IdTokenClaims);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Fetches the signed-in user's claims from the authorization server's `userinfo_endpoint`
+   * (OpenID Connect Core §5.3), authenticating first if needed.
+   */
+  async userInfo(): Promise<UserInfo> {
+    const tokens = await this.tokens();
+    if (!tokens?.access_token) {
+      throw new IdentityError('Not authenticated');
+    }
+    if (!this.discoveryDocument) {
+      await this.discoverOAuthEndpoints();
+    }
+    const endpoint = this.discoveryDocument!.userinfo_endpoint;
+    if (typeof endpoint !== 'string') {
+      throw new IdentityError('No userinfo endpoint found in discovery document');
+    }
+
+    const dpop = this.options.dpop && tokens.token_type?.toLowerCase() === 'dpop';
+    let userInfo: UserInfo;
+    try {
+      const response = await this.http.request<UserInfo>(async () => ({
+        method: 'get',
+        url: endpoint,
+        headers: dpop
+          ? { Authorization: `DPoP ${tokens.access_token}`, DPoP: await this.createDPoPProof('GET', endpoint, tokens.access_token) }
+          : { Authorization: `Bearer ${tokens.access_token}` }
+      }));
+      userInfo = response.data;
+    } catch (error) {
+      throw toOAuthError(IdentityError, 'Failed to fetch user info', error, endpoint);
+    }
+
+    if (!userInfo || typeof userInfo.sub !== 'string') {
+      throw new IdentityError('Invalid userinfo response: no subject', { endpoint, responseBody: userInfo });
+    }
+    // OpenID Connect Core §5.3.2: the response must be about the user the id_token names
+    const identity = await this.getIdentity();
+    if (identity && identity.subject !== userInfo.sub) {
+      throw new IdentityError('userinfo subject does not match the id_token', { endpoint });
+    }
+    return userInfo;
+  }
+
+  /**
+   * With `oidc`, validates the id_token of a token response. A sign-in is compared with the previous
+   * one to detect account switches, while a refreshed id_token must name the same user
+   * (OpenID Connect Core §12.2). An id_token is required when a nonce was sent.
+   */
+  private async verifyIdToken(
+    tokens: OAuthTokens,
+    expected: { nonce?: string; refresh?: boolean; previousIdToken?: string } = {}
+  ): Promise<void> {
+    if (!this.options.oidc || !this.discoveryDocument || !this.clientInfo) {
+      return;
+    }
+    const endpoint = this.discoveryDocument.token_endpoint;
+    if (!tokens.id_token) {
+      if (expected.nonce) {
+        throw new IdentityError('Token response contains no id_token although openid was requested', { endpoint });
       }
+      return;
     }
+
+    const claims = await validateIdToken(tokens.id_token, {
+      issuer: this.discoveryDocument.issuer,
+      clientId: this.clientInfo.client_id,
+      jwks: (refresh) => this.getJwks(refresh),
+      nonce: expected.nonce,
+      accessToken: tokens.access_token
+    });
+    const current = identityFromClaims(claims);
+
+    if (expected.refresh) {
+      const previous = expected.previousIdToken ? decodeJwt(expected.previousIdToken).payload : undefined;
+      if (previous && (previous.iss !== claims.iss || previous.sub !== claims.sub)) {
+        throw new IdentityError('Refreshed id_token names a different user', { endpoint });
+      }
+    } else {
+      const previous = this.lastIdentity || await this.getIdentity();
+      if (previous && (previous.issuer !== current.issuer || previous.subject !== current.subject)) {
+        this.logger.info('Signed in as a different user than before');
+        this.emit('account-changed', { previous, current });
+      }
+      // Remembered as the login_hint for signing in to this profile again
+      await this.updateServerMetadata({ account: current.email || current.username });
+    }
+    this.lastIdentity = current;
+  }
+
+  private async getJwks(refresh: boolean): Promise<JsonWebKeySet> {
+    if (this.jwks && !refresh) {
+      return this.jwks;
+    }
+    const jwksUri = this.discoveryDocument?.jwks_uri;
+    if (typeof jwksUri !== 'string') {
+      throw new IdentityError('No jwks_uri found in discovery document');
+    }
+
+    let jwks: JsonWebKeySet;
+    try {
+      jwks = (await this.http.get<JsonWebKeySet>(jwksUri)).data;
+    } catch (error) {
+      throw toOAuthError(IdentityError, 'Failed to fetch the issuer keys', error, jwksUri);
+    }
+    if (!Array.isArray(jwks?.keys)) {
+      throw new IdentityError('Invalid JWKS: no keys', { endpoint: jwksUri, responseBody: jwks });
+    }
+    this.jwks = jwks;
+    return jwks;
+  }
+
+  private withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+    return this.tokenStorage.withLock ? this.tokenStorage.withLock(this.serverUrlHash, task) : task();
+  }
+
+  private async closeAuthServer(): Promise<void> {
+    const server = this.authServer;
+    this.authServer = undefined;
+    if (!server?.listening) {
+      return;
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.close((err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+        server.closeIdleConnections();
+      });
+      this.logger.debug('Auth server closed');
+    } catch (error) {
+      this.logger.debug('Error closing auth server', error);
+    }
+  }
+
+  /**
+   * Stops timers and the callback server. A browser authorization still waiting for its callback
+   * is abandoned, but its stored session can be completed by another provider until it expires.
+   */
+  async cleanup(): Promise<void> {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    if (this.pendingCallback) {
+      this.closing = true;
+      this.events.emit('auth-cancel', new Error('Authorization abandoned by cleanup()'));
+      await this.authenticationPromise?.catch(() => undefined);
+      this.closing = false;
+    }
+
+    await this.closeAuthServer();
     
     this.events.removeAllListeners();
   }
@@ -0,0 +1,126 @@
+import { OAuthClientProvider } from './OAuthClientProvider';
+import { SharedOAuthCallbackServer } from './oauth-server';
+import { OAuthClientProviderOptions, AuthStatus } from './types';
+import { debugLog, getServerUrlHash } from './utils';
+
+/**
+ * Per-server configuration; callback settings are shared and come from the registry options.
+ */
+export type OAuthRegistryServerConfig = Omit<
+  OAuthClientProviderOptions,
+  'host' | 'callbackPort' | 'callbackPortRange' | 'callbackPath' | 'callbackServer' | 'authorizationQueue'
+>;
+
+export interface OAuthProviderRegistryOptions {
+  host?: string;
+  callbackPort?: number;
+  callbackPortRange?: [number, number];
+  callbackPath?: string;
+  /** Options applied to every provider, overridden by the per-server config */
+  defaults?: Partial<OAuthRegistryServerConfig>;
+}
+
+/**
+ * Manages OAuth providers for several MCP servers, e.g. all servers of one MultiServerMCPClient.
+ * Providers are created lazily, one per server URL and profile. They share a single callback server that
+ * routes callbacks by `state`, and browser prompts are shown one at a time.
+ */
+export class OAuthProviderRegistry {
+  private options: OAuthProviderRegistryOptions;
+  private providers = new Map<string, OAuthClientProvider>();
+  private callbackServer: SharedOAuthCallbackServer;
+  private authorizationQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly servers: Record<string, OAuthRegistryServerConfig>, options: OAuthProviderRegistryOptions = {}) {
+    this.options = {
+      ...options,
+      host: options.host || 'localhost',
+      callbackPath: options.callbackPath || '/oauth/callback'
+    };
+
+    const ports: number[] = [];
+    if (options.callbackPort) {
+      ports.push(options.callbackPort);
+    }
+    if (options.callbackPortRange) {
+      for (let port = options.callbackPortRange[0]; port <= options.callbackPortRange[1]; port++) {
+        ports.push(port);
+      }
+    }
+    if (ports.length === 0) {
+      ports.push(0);
+    }
+
+    this.callbackServer = new SharedOAuthCallbackServer({
+      ports,
+      path: this.options.callbackPath!,
+      pages: options.defaults?.callbackPages,
+      logger: options.defaults?.logger
+    });
+  }
+
+  get serverNames(): string[] {
+    return Object.keys(this.servers);
+  }
+
+  /**
+   * Returns the provider for a configured server, creating it on first use.
+   */
+  get(name: string): OAuthClientProvider {
+    const config = this.servers[name];
+    if (!config) {
+      throw new Error(`Unknown MCP server: ${name}`);
+    }
+
+    // Several entries may point at one server with different profiles
+    const key = getServerUrlHash(config.serverUrl, config.profile ?? this.options.defaults?.profile);
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = new OAuthClientProvider({
+        ...this.options.defaults,
+        ...config,
+        host: this.options.host!,
+        callbackPort: this.options.callbackPort,
+        callbackPortRange: this.options.callbackPortRange,
+        callbackPath: this.options.callbackPath,
+        callbackServer: this.callbackServer,
+        authorizationQueue: (task) => this.enqueueAuthorization(task)
+      });
+      this.providers.set(key, provider);
+      debugLog(`Created OAuth provider for ${name} (${config.serverUrl})`);
+    }
+    return provider;
+  }
+
+  /**
+   * Providers for every configured server, keyed by server name, ready to use as `authProvider`s.
+   */
+  all(): Record<string, OAuthClientProvider> {
+    const providers: Record<string, OAuthClientProvider> = {};
+    for (const name of this.serverNames) {
+      providers[name] = this.get(name);
+    }
+    return providers;
+  }
+
+  async getStatus(): Promise<Record<string, AuthStatus>> {
+    const status: Record<string, AuthStatus> = {};
+    for (const name of this.serverNames) {
+      status[name] = await this.get(name).getAuthStatus();
+    }
+    return status;
+  }
+
+  async cleanup(): Promise<void> {
+    for (const provider of this.providers.values()) {
+      await provider.cleanup();
+    }
+    await this.callbackServer.close();
+  }
+
+  private enqueueAuthorization<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.authorizationQueue.then(task, task);
+    this.authorizationQueue = run.catch(() => undefined);
+    return run;
+  }
+}
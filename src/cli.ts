@@ -0,0 +1,357 @@
+#!/usr/bin/env node
+import fs from 'fs/promises';
+import { JsonWebKey } from 'crypto';
+import { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { OAuthClientProvider } from './OAuthClientProvider';
+import { FileTokenStorage, getServerUrlHash, isTokenExpired, DEFAULT_PROFILE } from './utils';
+import { StoredOAuthTokens, StoredServerMetadata } from './types';
+
+const USAGE = `Usage: mcp-oauth <command> [options]
+
+Commands:
+  list                  List stored servers with profile, client, scopes and token expiry
+  login <server-url>    Authenticate with a server
+  refresh <server>      Refresh the stored tokens
+  logout <server>       Revoke the tokens at the server and clear them locally (alias: revoke)
+  delete <server>       Delete everything stored for a server without contacting it
+  export [server]       Print stored credentials as JSON, for all servers or one
+  import [file]         Import credentials written by export (default: stdin)
+
+<server> is a server URL or a stored hash, or a unique prefix of one.
+
+Options:
+  --config-dir <dir>    Credential directory (default: ~/.config/mcp-oauth)
+  --profile <name>      Profile of a server URL to use (default: default)
+  --scopes <a,b,...>    Scopes to request on login
+  --device              Use the device authorization flow on login
+  --force               On logout, clear local credentials even if revocation fails
+  --delete-client       On logout, also delete the registered client
+  --output <file>       Write the export to a file instead of stdout
+  --json                Print the list as JSON
+`;
+
+interface CliArgs {
+  command?: string;
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+interface ExportedServer {
+  hash: string;
+  metadata?: StoredServerMetadata | null;
+  tokens?: StoredOAuthTokens | null;
+  clientInfo?: OAuthClientInformationFull | null;
+  dpopKey?: JsonWebKey | null;
+}
+
+interface ExportBundle {
+  version: 1;
+  exportedAt: string;
+  servers: ExportedServer[];
+}
+
+const VALUE_FLAGS = ['config-dir', 'profile', 'scopes', 'output'];
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { positional: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+      if (VALUE_FLAGS.includes(name)) {
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined) {
+          throw new Error(`--${name} requires a value`);
+        }
+        args.flags[name] = value;
+      } else {
+        args.flags[name] = true;
+      }
+    } else if (arg === '-h') {
+      args.flags.help = true;
+    } else if (!args.command) {
+      args.command = arg;
+    } else {
+      args.positional.push(arg);
+    }
+  }
+  return args;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function formatExpiry(tokens: StoredOAuthTokens | null): string {
+  if (!tokens) {
+    return '-';
+  }
+  if (tokens.expires_at === undefined) {
+    return 'unknown';
+  }
+  const expiresAt = new Date(tokens.expires_at * 1000).toISOString();
+  return isTokenExpired(tokens) ? `expired ${expiresAt}` : expiresAt;
+}
+
+function printTable(rows: string[][]): void {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+  }
+}
+
+class Cli {
+  private storage: FileTokenStorage;
+
+  constructor(private readonly args: CliArgs) {
+    const configDir = typeof args.flags['config-dir'] === 'string' ? args.flags['config-dir'] : undefined;
+    this.storage = new FileTokenStorage(configDir);
+  }
+
+  async run(): Promise<void> {
+    switch (this.args.command) {
+      case 'list':
+        return this.list();
+      case 'login':
+        return this.login();
+      case 'refresh':
+        return this.refresh();
+      case 'logout':
+      case 'revoke':
+        return this.logout();
+      case 'delete':
+        return this.delete();
+      case 'export':
+        return this.export();
+      case 'import':
+        return this.import();
+      case undefined:
+      case 'help':
+        console.log(USAGE);
+        return;
+      default:
+        throw new Error(`Unknown command: ${this.args.command}\n\n${USAGE}`);
+    }
+  }
+
+  /**
+   * Resolves a server URL, hash or hash prefix to the stored hash and, when known, the server URL
+   * and profile. A URL is combined with `--profile`.
+   */
+  private async resolveServer(value: string | undefined): Promise<{ hash: string; serverUrl?: string; profile?: string }> {
+    if (!value) {
+      throw new Error(`Missing <server> argument\n\n${USAGE}`);
+    }
+    if (isUrl(value)) {
+      return { hash: getServerUrlHash(value, this.profile), serverUrl: value, profile: this.profile };
+    }
+
+    const matches = (await this.storage.listServers()).filter((hash) => hash.startsWith(value));
+    if (matches.length === 0) {
+      throw new Error(`No stored server matches ${value}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`${value} matches several stored servers: ${matches.join(', ')}`);
+    }
+    const metadata = await this.storage.getServerMetadata(matches[0]);
+    return { hash: matches[0], serverUrl: metadata?.serverUrl, profile: metadata?.profile };
+  }
+
+  private get profile(): string {
+    const profile = this.args.flags.profile;
+    return typeof profile === 'string' ? profile : DEFAULT_PROFILE;
+  }
+
+  private async requireServer(value: string | undefined): Promise<{ serverUrl: string; profile?: string }> {
+    const { hash, serverUrl, profile } = await this.resolveServer(value);
+    if (!serverUrl) {
+      throw new Error(`The server URL of ${hash} is not stored; pass the URL instead`);
+    }
+    return { serverUrl, profile };
+  }
+
+  private createProvider(serverUrl: string, profile?: string): OAuthClientProvider {
+    const scopes = this.args.flags.scopes;
+    return new OAuthClientProvider({
+      serverUrl,
+      profile,
+      host: 'localhost',
+      storage: this.storage,
+      autoAuthenticate: false,
+      scopes: typeof scopes === 'string' ? scopes.split(',').map((scope) => scope.trim()).filter(Boolean) : undefined,
+      authFlow: this.args.flags.device ? 'device' : 'auto'
+    });
+  }
+
+  private async list(): Promise<void> {
+    const servers = [];
+    for (const hash of await this.storage.listServers()) {
+      const [metadata, tokens, clientInfo] = await Promise.all([
+        this.storage.getServerMetadata(hash),
+        this.storage.getTokens(hash),
+        this.storage.getClientInfo(hash)
+      ]);
+      servers.push({ hash, metadata, tokens, clientInfo });
+    }
+
+    if (this.args.flags.json) {
+      console.log(JSON.stringify(servers.map(({ hash, metadata, tokens, clientInfo }) => ({
+        hash,
+        serverUrl: metadata?.serverUrl,
+        profile: metadata?.profile || DEFAULT_PROFILE,
+        account: metadata?.account,
+        authorizationServerUrl: metadata?.authorizationServerUrl,
+        clientId: clientInfo?.client_id,
+        scope: tokens?.scope,
+        expiresAt: tokens?.expires_at,
+        hasRefreshToken: Boolean(tokens?.refresh_token)
+      })), null, 2));
+      return;
+    }
+
+    if (servers.length === 0) {
+      console.log('No stored servers');
+      return;
+    }
+    printTable([
+      ['HASH', 'SERVER', 'PROFILE', 'CLIENT', 'SCOPES', 'EXPIRES'],
+      ...servers.map(({ hash, metadata, tokens, clientInfo }) => [
+        hash.slice(0, 12),
+        metadata?.serverUrl || '(unknown)',
+        metadata?.account ? `${metadata.profile || DEFAULT_PROFILE} (${metadata.account})` : metadata?.profile || DEFAULT_PROFILE,
+        clientInfo?.client_id || '-',
+        tokens?.scope || '-',
+        formatExpiry(tokens)
+      ])
+    ]);
+  }
+
+  private async login(): Promise<void> {
+    const serverUrl = this.args.positional[0];
+    if (!serverUrl || !isUrl(serverUrl)) {
+      throw new Error(`login requires a server URL\n\n${USAGE}`);
+    }
+
+    const provider = this.createProvider(serverUrl, this.profile);
+    try {
+      await provider.ensureAuthenticated();
+      console.log(`Logged in to ${serverUrl}${this.profile === DEFAULT_PROFILE ? '' : ` as profile ${this.profile}`}`);
+    } finally {
+      await provider.cleanup();
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const { serverUrl, profile } = await this.requireServer(this.args.positional[0]);
+    const tokens = await this.storage.getTokens(getServerUrlHash(serverUrl, profile));
+    if (!tokens?.refresh_token) {
+      throw new Error(`No refresh token stored for ${serverUrl}; log in again`);
+    }
+
+    const provider = this.createProvider(serverUrl, profile);
+    try {
+      await provider.refreshTokens(tokens.refresh_token);
+      console.log(`Refreshed tokens for ${serverUrl}`);
+    } finally {
+      await provider.cleanup();
+    }
+  }
+
+  private async logout(): Promise<void> {
+    const { serverUrl, profile } = await this.requireServer(this.args.positional[0]);
+    const provider = this.createProvider(serverUrl, profile);
+    try {
+      await provider.logout({
+        force: Boolean(this.args.flags.force),
+        deleteClient: Boolean(this.args.flags['delete-client'])
+      });
+      console.log(`Logged out of ${serverUrl}`);
+    } finally {
+      await provider.cleanup();
+    }
+  }
+
+  private async delete(): Promise<void> {
+    const { hash, serverUrl } = await this.resolveServer(this.args.positional[0]);
+    await this.storage.deleteServer(hash);
+    console.log(`Deleted stored credentials for ${serverUrl || hash}`);
+  }
+
+  private async export(): Promise<void> {
+    const hashes = this.args.positional[0]
+      ? [(await this.resolveServer(this.args.positional[0])).hash]
+      : await this.storage.listServers();
+
+    const bundle: ExportBundle = { version: 1, exportedAt: new Date().toISOString(), servers: [] };
+    for (const hash of hashes) {
+      bundle.servers.push({
+        hash,
+        metadata: await this.storage.getServerMetadata(hash),
+        tokens: await this.storage.getTokens(hash),
+        clientInfo: await this.storage.getClientInfo(hash),
+        dpopKey: await this.storage.getDPoPKey(hash)
+      });
+    }
+
+    const output = JSON.stringify(bundle, null, 2);
+    const file = this.args.flags.output;
+    if (typeof file === 'string') {
+      // The export holds live credentials, so it gets the same permissions as the store
+      await fs.writeFile(file, output, { mode: 0o600 });
+      console.error(`Exported ${bundle.servers.length} server(s) to ${file}`);
+    } else {
+      console.log(output);
+    }
+  }
+
+  private async import(): Promise<void> {
+    const file = this.args.positional[0];
+    const input = file ? await fs.readFile(file, 'utf-8') : await readStdin();
+    const bundle: ExportBundle = JSON.parse(input);
+    if (bundle?.version !== 1 || !Array.isArray(bundle.servers)) {
+      throw new Error('Not an mcp-oauth export');
+    }
+
+    for (const server of bundle.servers) {
+      // Re-derive the hash from the URL when we have it, so imports survive hashing changes
+      const hash = server.metadata?.serverUrl
+        ? getServerUrlHash(server.metadata.serverUrl, server.metadata.profile)
+        : server.hash;
+      if (server.metadata) {
+        await this.storage.saveServerMetadata(hash, server.metadata);
+      }
+      if (server.clientInfo) {
+        await this.storage.saveClientInfo(hash, server.clientInfo);
+      }
+      if (server.tokens) {
+        await this.storage.saveTokens(hash, server.tokens);
+      }
+      if (server.dpopKey) {
+        await this.storage.saveDPoPKey(hash, server.dpopKey);
+      }
+      console.log(`Imported ${server.metadata?.serverUrl || hash}`);
+    }
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  await new Cli(args).run();
+}
+
+main().catch((error) => {
+  console.error(`mcp-oauth: ${error.message}`);
+  process.exitCode = 1;
+});
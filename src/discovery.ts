@@ -0,0 +1,440 @@
+import {
+  AuthorizationServerMetadata,
+  OAuthProtectedResourceMetadata,
+  OAuthProtectedResourceMetadataSchema,
+  OAuthMetadataSchema,
+  OpenIdProviderDiscoveryMetadataSchema
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { getDefaultLogger } from './utils';
+import { CachedDiscovery, CachedDocument, OAuthLogger } from './types';
+import { DiscoveryError } from './errors';
+import { HttpClient } from './http';
+
+export interface DiscoveryOptions {
+  /** Protected Resource Metadata URL, skipping the `WWW-Authenticate` probe */
+  resourceMetadataUrl?: string;
+  logger?: OAuthLogger;
+  /** Client for the metadata requests (default: one with the default timeouts and retries) */
+  http?: HttpClient;
+  /** Stored results of an earlier discovery; fresh documents are reused and stale ones revalidated */
+  cache?: CachedDiscovery;
+  /** Reject authorization servers that do not list S256 in `code_challenge_methods_supported` (default: true) */
+  requirePkce?: boolean;
+}
+
+export interface DiscoveryResult {
+  resourceMetadata?: OAuthProtectedResourceMetadata;
+  resourceMetadataUrl?: string;
+  authorizationServerUrl: string;
+  authorizationServerMetadata: AuthorizationServerMetadata;
+  /** Results to store for the next discovery; undefined when the server sent `no-store` */
+  cache?: CachedDiscovery;
+  /** Whether the results came from `options.cache`, possibly after revalidation */
+  fromCache: boolean;
+}
+
+/**
+ * Parses the auth-params of a `WWW-Authenticate` challenge, e.g.
+ * `Bearer error="insufficient_scope", scope="a b"` → `{ error: 'insufficient_scope', scope: 'a b' }`.
+ * Parameter names are lower-cased.
+ */
+export function parseWWWAuthenticate(header: string | null | undefined): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (!header) {
+    return params;
+  }
+
+  const pattern = /([a-zA-Z0-9_-]+)=(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header)) !== null) {
+    const value = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+    params[match[1].toLowerCase()] = value;
+  }
+  return params;
+}
+
+/**
+ * Extracts the `resource_metadata` parameter from a `WWW-Authenticate` header (RFC 9728 §5.1).
+ */
+export function extractResourceMetadataUrl(header: string | null | undefined): string | undefined {
+  const value = parseWWWAuthenticate(header).resource_metadata;
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return new URL(value).toString();
+  } catch {
+    getDefaultLogger().debug('Ignoring invalid resource_metadata URL:', value);
+    return undefined;
+  }
+}
+
+/**
+ * Returns the scopes required by an `error="insufficient_scope"` challenge (RFC 6750 §3.1),
+ * or undefined for any other challenge.
+ */
+export function extractInsufficientScope(header: string | null | undefined): string[] | undefined {
+  const params = parseWWWAuthenticate(header);
+  if (params.error !== 'insufficient_scope') {
+    return undefined;
+  }
+  return params.scope ? params.scope.split(' ').filter(Boolean) : [];
+}
+
+function splitPath(url: string): { origin: string; pathname: string } {
+  const parsed = new URL(url);
+  const pathname = parsed.pathname.endsWith('/') ? parsed.pathname.slice(0, -1) : parsed.pathname;
+  return { origin: parsed.origin, pathname };
+}
+
+/**
+ * Candidate Protected Resource Metadata URLs for an MCP server, path-aware first.
+ */
+export function buildProtectedResourceMetadataUrls(serverUrl: string): string[] {
+  const { origin, pathname } = splitPath(serverUrl);
+  const urls: string[] = [];
+  if (pathname) {
+    urls.push(`${origin}/.well-known/oauth-protected-resource${pathname}`);
+  }
+  urls.push(`${origin}/.well-known/oauth-protected-resource`);
+  return urls;
+}
+
+/**
+ * Candidate Authorization Server Metadata URLs for an issuer, in the order required by the
+ * MCP authorization spec: RFC 8414 path insertion, OIDC path insertion, OIDC path appending.
+ * Issuers with a path additionally fall back to the root RFC 8414 document for older servers.
+ */
+export function buildAuthorizationServerMetadataUrls(issuer: string): string[] {
+  const { origin, pathname } = splitPath(issuer);
+  if (!pathname) {
+    return [
+      `${origin}/.well-known/oauth-authorization-server`,
+      `${origin}/.well-known/openid-configuration`
+    ];
+  }
+  return [
+    `${origin}/.well-known/oauth-authorization-server${pathname}`,
+    `${origin}/.well-known/openid-configuration${pathname}`,
+    `${origin}${pathname}/.well-known/openid-configuration`,
+    `${origin}/.well-known/oauth-authorization-server`
+  ];
+}
+
+const DEFAULT_METADATA_MAX_AGE_MS = 60 * 60 * 1000;
+
+interface FetchedDocument<T> {
+  document: CachedDocument<T>;
+  /** False when the server sent `Cache-Control: no-store` */
+  storable: boolean;
+}
+
+/**
+ * Time until which a response is fresh, per `Cache-Control: max-age` (minus `Age`), `no-cache`
+ * or `Expires`, and one hour without any of them. Undefined for `no-store`.
+ */
+function getExpiresAt(headers: Record<string, any>, now = Date.now()): number | undefined {
+  const directives = new Map<string, string | undefined>();
+  for (const directive of String(headers['cache-control'] || '').toLowerCase().split(',')) {
+    const [name, value] = directive.trim().split('=');
+    if (name) {
+      directives.set(name, value?.replace(/"/g, ''));
+    }
+  }
+
+  if (directives.has('no-store')) {
+    return undefined;
+  }
+  if (directives.has('no-cache')) {
+    return now;
+  }
+  const maxAge = Number(directives.get('max-age'));
+  if (directives.has('max-age') && !Number.isNaN(maxAge)) {
+    const age = Number(headers.age) || 0;
+    return now + Math.max(maxAge - age, 0) * 1000;
+  }
+  if (headers.expires) {
+    // An invalid Expires value means already expired (RFC 9111 §5.3)
+    const expires = Date.parse(headers.expires);
+    return Number.isNaN(expires) ? now : Math.max(expires, now);
+  }
+  return now + DEFAULT_METADATA_MAX_AGE_MS;
+}
+
+/**
+ * Fetches a metadata document, or revalidates `cached` with a conditional request.
+ */
+async function fetchDocument<T>(http: HttpClient, url: string, cached?: CachedDocument<T>): Promise<FetchedDocument<T>> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  const response = await http.get<T>(url, {
+    headers,
+    validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && cached !== undefined)
+  });
+  const now = Date.now();
+  const expiresAt = getExpiresAt(response.headers, now);
+
+  if (response.status === 304) {
+    return {
+      document: {
+        ...cached!,
+        etag: response.headers.etag || cached!.etag,
+        lastModified: response.headers['last-modified'] || cached!.lastModified,
+        expiresAt: expiresAt ?? now
+      },
+      storable: expiresAt !== undefined
+    };
+  }
+  if (!response.data || typeof response.data !== 'object') {
+    throw new Error('invalid response');
+  }
+  return {
+    document: {
+      url,
+      data: response.data,
+      etag: response.headers.etag,
+      lastModified: response.headers['last-modified'],
+      expiresAt: expiresAt ?? now
+    },
+    storable: expiresAt !== undefined
+  };
+}
+
+async function fetchFirst<T>(
+  http: HttpClient,
+  urls: string[],
+  attempted: string[]
+): Promise<FetchedDocument<T> | undefined> {
+  for (const url of urls) {
+    try {
+      return await fetchDocument<T>(http, url);
+    } catch (error: any) {
+      attempted.push(`${url} (${error.response?.status ?? error.code ?? error.message})`);
+    }
+  }
+  return undefined;
+}
+
+function formatIssues(issues: Array<{ path: (string | number)[]; message: string }>): string {
+  return issues.map((issue) => `${issue.path.join('.') || '(document)'}: ${issue.message}`).join('; ');
+}
+
+function getOrigin(url: string): string | undefined {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+function withoutTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url.slice(0, -1) : url;
+}
+
+function validateResourceMetadata(
+  document: CachedDocument<OAuthProtectedResourceMetadata>,
+  serverUrl: string
+): void {
+  const parsed = OAuthProtectedResourceMetadataSchema.safeParse(document.data);
+  if (!parsed.success) {
+    throw new DiscoveryError(
+      `Invalid protected resource metadata at ${document.url}: ${formatIssues(parsed.error.issues)}`,
+      { endpoint: document.url }
+    );
+  }
+  if (new URL(parsed.data.resource).origin !== new URL(serverUrl).origin) {
+    throw new DiscoveryError(
+      `Protected resource metadata at ${document.url} names resource ${parsed.data.resource}, ` +
+      `which does not match ${serverUrl}`,
+      { endpoint: document.url }
+    );
+  }
+}
+
+/**
+ * Checks Authorization Server Metadata against the SDK schema and RFC 8414 §3.3: the issuer must
+ * be the authorization server URL the document was looked up for. Servers that are their own
+ * authorization server (no Protected Resource Metadata) only need a same-origin issuer, since the
+ * lookup may have fallen back to the root document. With `requirePkce`, S256 must be supported.
+ */
+function validateAuthorizationServerMetadata(
+  document: CachedDocument<AuthorizationServerMetadata>,
+  authorizationServerUrl: string,
+  options: { namedByResource: boolean; requirePkce: boolean }
+): void {
+  const schema = document.url.includes('/.well-known/openid-configuration')
+    ? OpenIdProviderDiscoveryMetadataSchema
+    : OAuthMetadataSchema;
+  const parsed = schema.safeParse(document.data);
+  if (!parsed.success) {
+    throw new DiscoveryError(
+      `Invalid authorization server metadata at ${document.url}: ${formatIssues(parsed.error.issues)}`,
+      { endpoint: document.url }
+    );
+  }
+
+  const issuer = parsed.data.issuer;
+  const issuerMatches = options.namedByResource
+    ? withoutTrailingSlash(issuer) === withoutTrailingSlash(authorizationServerUrl)
+    : getOrigin(issuer) === new URL(document.url).origin;
+  if (!issuerMatches) {
+    throw new DiscoveryError(
+      `Authorization server metadata at ${document.url} names issuer ${issuer}, expected ${authorizationServerUrl}`,
+      { endpoint: document.url }
+    );
+  }
+
+  if (options.requirePkce && !parsed.data.code_challenge_methods_supported?.includes('S256')) {
+    throw new DiscoveryError(
+      `Authorization server ${issuer} does not support PKCE with S256 ` +
+      `(code_challenge_methods_supported: ${JSON.stringify(parsed.data.code_challenge_methods_supported ?? [])})`,
+      { endpoint: document.url }
+    );
+  }
+}
+
+function toDiscoveryResult(
+  resource: FetchedDocument<OAuthProtectedResourceMetadata> | undefined,
+  metadata: FetchedDocument<AuthorizationServerMetadata>,
+  authorizationServerUrl: string,
+  fromCache: boolean
+): DiscoveryResult {
+  const storable = (resource?.storable ?? true) && metadata.storable;
+  return {
+    resourceMetadata: resource?.document.data,
+    resourceMetadataUrl: resource?.document.url,
+    authorizationServerUrl,
+    authorizationServerMetadata: metadata.document.data,
+    cache: storable
+      ? { resourceMetadata: resource?.document, authorizationServerUrl, authorizationServerMetadata: metadata.document }
+      : undefined,
+    fromCache
+  };
+}
+
+/**
+ * Sends an unauthenticated request to the MCP server and returns the `resource_metadata`
+ * hint from its `WWW-Authenticate` challenge, if any.
+ */
+export async function probeResourceMetadataUrl(
+  serverUrl: string,
+  logger: OAuthLogger = getDefaultLogger(),
+  http: HttpClient = new HttpClient({ logger })
+): Promise<string | undefined> {
+  try {
+    const response = await http.get(serverUrl, {
+      headers: { Accept: 'application/json, text/event-stream' },
+      validateStatus: () => true,
+      maxRedirects: 0,
+      responseType: 'stream'
+    });
+    response.data?.destroy?.();
+    return extractResourceMetadataUrl(response.headers['www-authenticate']);
+  } catch (error) {
+    logger.debug('Resource metadata probe failed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Discovery from stored results: fresh documents are used as they are, stale ones are
+ * revalidated with conditional requests. Throws when the results cannot be used anymore.
+ */
+async function discoverFromCache(
+  serverUrl: string,
+  cache: CachedDiscovery,
+  http: HttpClient,
+  requirePkce: boolean
+): Promise<DiscoveryResult> {
+  const now = Date.now();
+  const load = <T>(document: CachedDocument<T>): Promise<FetchedDocument<T>> | FetchedDocument<T> =>
+    document.expiresAt > now ? { document, storable: true } : fetchDocument(http, document.url, document);
+
+  const resource = cache.resourceMetadata && await load(cache.resourceMetadata);
+  if (resource) {
+    validateResourceMetadata(resource.document, serverUrl);
+    const servers = resource.document.data.authorization_servers;
+    if (servers?.length && servers[0] !== cache.authorizationServerUrl) {
+      throw new Error(`Authorization server changed to ${servers[0]}`);
+    }
+  }
+
+  const metadata = await load(cache.authorizationServerMetadata);
+  validateAuthorizationServerMetadata(metadata.document, cache.authorizationServerUrl, {
+    namedByResource: Boolean(resource?.document.data.authorization_servers?.length),
+    requirePkce
+  });
+  return toDiscoveryResult(resource, metadata, cache.authorizationServerUrl, true);
+}
+
+/**
+ * Runs MCP authorization discovery for a server: Protected Resource Metadata (RFC 9728), then
+ * Authorization Server Metadata (RFC 8414 / OpenID Connect Discovery) for the server it names.
+ * Servers without Protected Resource Metadata are treated as their own authorization server.
+ * Both documents are validated, and with `cache` the network is only used for stale documents.
+ */
+export async function discoverAuthorization(
+  serverUrl: string,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryResult> {
+  const logger = options.logger || getDefaultLogger();
+  const http = options.http || new HttpClient({ logger });
+  const requirePkce = options.requirePkce !== false;
+  const cache = options.cache;
+
+  const cacheMatches = cache && (!options.resourceMetadataUrl || cache.resourceMetadata?.url === options.resourceMetadataUrl);
+  if (cache && cacheMatches) {
+    try {
+      const result = await discoverFromCache(serverUrl, cache, http, requirePkce);
+      logger.debug('Using cached discovery results for', serverUrl);
+      return result;
+    } catch (error) {
+      logger.debug('Cached discovery results are unusable, discovering again:', error);
+    }
+  }
+
+  const attempted: string[] = [];
+  const hint = options.resourceMetadataUrl || await probeResourceMetadataUrl(serverUrl, logger, http);
+  const resourceUrls = buildProtectedResourceMetadataUrls(serverUrl);
+  if (hint) {
+    resourceUrls.unshift(hint);
+  }
+
+  const resource = await fetchFirst<OAuthProtectedResourceMetadata>(http, resourceUrls, attempted);
+  logger.debug('Protected resource metadata:', resource ? resource.document.url : 'Not found');
+
+  let authorizationServerUrl = serverUrl;
+  if (resource) {
+    validateResourceMetadata(resource.document, serverUrl);
+    const servers = resource.document.data.authorization_servers;
+    if (servers && servers.length > 0) {
+      authorizationServerUrl = servers[0];
+    }
+  }
+
+  const metadata = await fetchFirst<AuthorizationServerMetadata>(
+    http,
+    buildAuthorizationServerMetadataUrls(authorizationServerUrl),
+    attempted
+  );
+  if (!metadata) {
+    throw new DiscoveryError(
+      `Failed to fetch OAuth discovery document for ${authorizationServerUrl}. Tried: ${attempted.join(', ')}`,
+      { endpoint: authorizationServerUrl, attemptedUrls: attempted }
+    );
+  }
+  validateAuthorizationServerMetadata(metadata.document, authorizationServerUrl, {
+    namedByResource: authorizationServerUrl !== serverUrl,
+    requirePkce
+  });
+  logger.debug('Authorization server metadata:', metadata.document.url);
+
+  return toDiscoveryResult(resource, metadata, authorizationServerUrl, false);
+}
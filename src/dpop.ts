@@ -0,0 +1,59 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import { signJwt } from './jwt';
+
+/**
+ * Generates a P-256 key pair for DPoP proofs and returns the private key as a JWK for storage.
+ */
+export function generateDPoPKey(): JsonWebKey {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return privateKey.export({ format: 'jwk' });
+}
+
+/**
+ * The public part of a P-256 private key, as carried in the `jwk` header of a DPoP proof.
+ */
+function publicJwk(privateKey: KeyObject): { kty: string; crv: string; x: string; y: string } {
+  const { kty, crv, x, y } = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+  return { kty: kty!, crv: crv!, x: x!, y: y! };
+}
+
+/**
+ * JWK SHA-256 thumbprint (RFC 7638) of the key, sent as `dpop_jkt` to bind the authorization code.
+ */
+export function dpopKeyThumbprint(privateKey: KeyObject): string {
+  const { kty, crv, x, y } = publicJwk(privateKey);
+  // Required members in lexicographic order, no whitespace
+  const canonical = JSON.stringify({ crv, kty, x, y });
+  return crypto.createHash('sha256').update(canonical).digest('base64url');
+}
+
+/**
+ * Creates a DPoP proof JWT (RFC 9449 §4.2) for a request. `accessToken` adds the `ath` claim
+ * required when presenting a DPoP-bound token to a resource server.
+ */
+export function createDPoPProof(
+  privateKey: KeyObject,
+  method: string,
+  url: string | URL,
+  options: { nonce?: string; accessToken?: string } = {}
+): string {
+  // htu is the request URL without query and fragment
+  const htu = new URL(url.toString());
+  htu.search = '';
+  htu.hash = '';
+
+  const payload: Record<string, unknown> = {
+    jti: crypto.randomUUID(),
+    htm: method.toUpperCase(),
+    htu: htu.toString(),
+    iat: Math.floor(Date.now() / 1000)
+  };
+  if (options.nonce) {
+    payload.nonce = options.nonce;
+  }
+  if (options.accessToken) {
+    payload.ath = crypto.createHash('sha256').update(options.accessToken).digest('base64url');
+  }
+
+  return signJwt({ typ: 'dpop+jwt', alg: 'ES256', jwk: publicJwk(privateKey) }, payload, privateKey);
+}
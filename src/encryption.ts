@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+
+export const ENCRYPTION_KEY_ENV = 'MCP_OAUTH_ENCRYPTION_KEY';
+export const ENCRYPTION_KEY_FILE_ENV = 'MCP_OAUTH_ENCRYPTION_KEY_FILE';
+
+const ALGORITHM = 'aes-256-gcm';
+
+export interface EncryptedEnvelope {
+  version: 1;
+  alg: typeof ALGORITHM;
+  /** Salt the key was derived with */
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export interface EncryptionKeyOptions {
+  encryptionKey?: string | Buffer;
+  encryptionKeyFile?: string;
+}
+
+/**
+ * Resolves the storage encryption secret from, in order: the `encryptionKey` option, the
+ * `encryptionKeyFile` option, the MCP_OAUTH_ENCRYPTION_KEY env var and the
+ * MCP_OAUTH_ENCRYPTION_KEY_FILE env var. Returns undefined when no key is configured.
+ */
+export async function resolveEncryptionSecret(options: EncryptionKeyOptions): Promise<string | Buffer | undefined> {
+  let secret: string | Buffer | undefined = options.encryptionKey;
+  if (!secret && options.encryptionKeyFile) {
+    secret = (await fs.readFile(options.encryptionKeyFile, 'utf-8')).trim();
+  }
+  if (!secret && process.env[ENCRYPTION_KEY_ENV]) {
+    secret = process.env[ENCRYPTION_KEY_ENV];
+  }
+  if (!secret && process.env[ENCRYPTION_KEY_FILE_ENV]) {
+    secret = (await fs.readFile(process.env[ENCRYPTION_KEY_FILE_ENV]!, 'utf-8')).trim();
+  }
+
+  if (!secret || secret.length === 0) {
+    return undefined;
+  }
+  return secret;
+}
+
+/**
+ * Stretches an arbitrary secret (passphrase, hex or base64 key) into a 256-bit key with the
+ * base64 `salt` of an envelope.
+ */
+export function deriveEncryptionKey(secret: string | Buffer, salt: string): Buffer {
+  return crypto.scryptSync(secret, Buffer.from(salt, 'base64'), 32);
+}
+
+export function generateEncryptionSalt(): string {
+  return crypto.randomBytes(16).toString('base64');
+}
+
+/**
+ * Encrypts `plaintext` with a key derived from `salt`, which is stored in the envelope.
+ */
+export function encrypt(plaintext: string, key: Buffer, salt: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  const envelope: EncryptedEnvelope = {
+    version: 1,
+    alg: ALGORITHM,
+    salt,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+export function decrypt(envelope: EncryptedEnvelope, key: Buffer): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf-8');
+}
+
+/**
+ * Parses file contents as an encryption envelope, returning undefined for plaintext files.
+ */
+export function parseEncryptedEnvelope(data: string): EncryptedEnvelope | undefined {
+  try {
+    const parsed = JSON.parse(data);
+    if (parsed && parsed.alg === ALGORITHM && typeof parsed.ciphertext === 'string') {
+      return parsed;
+    }
+  } catch {
+    // Not JSON, so not an envelope
+  }
+  return undefined;
+}
@@ -0,0 +1,187 @@
+export type OAuthErrorPhase =
+  | 'discovery'
+  | 'registration'
+  | 'authorization'
+  | 'device_authorization'
+  | 'token_exchange'
+  | 'refresh'
+  | 'revocation'
+  | 'identity';
+
+export interface OAuthErrorDetails {
+  /** OAuth `error` code from the response, e.g. `invalid_grant` or `access_denied` (RFC 6749 §5.2) */
+  code?: string;
+  /** OAuth `error_description` from the response */
+  description?: string;
+  /** OAuth `error_uri` from the response */
+  uri?: string;
+  /** URL of the endpoint that failed */
+  endpoint?: string;
+  /** HTTP status of the failed response; undefined when no response was received */
+  status?: number;
+  /** Raw response body of the failed response */
+  responseBody?: unknown;
+  /** Underlying error; for failed requests only its name, message and code are kept */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by the provider while talking to an authorization server.
+ * Carries the structured OAuth error from the response, the phase and the endpoint URL.
+ */
+export class OAuthError extends Error {
+  readonly phase: OAuthErrorPhase;
+  readonly code?: string;
+  readonly description?: string;
+  readonly uri?: string;
+  readonly endpoint?: string;
+  readonly status?: number;
+  readonly responseBody?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, phase: OAuthErrorPhase, details: OAuthErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.phase = phase;
+    this.code = details.code;
+    this.description = details.description;
+    this.uri = details.uri;
+    this.endpoint = details.endpoint;
+    this.status = details.status;
+    this.responseBody = details.responseBody;
+    this.cause = details.cause;
+  }
+
+  /**
+   * True when no HTTP response was received at all (DNS, connection or timeout failures).
+   */
+  get isNetworkError(): boolean {
+    return this.status === undefined && this.code === undefined && this.cause !== undefined;
+  }
+}
+
+export class DiscoveryError extends OAuthError {
+  /** Every URL that was tried, with the reason it failed */
+  readonly attemptedUrls: string[];
+
+  constructor(message: string, details: OAuthErrorDetails & { attemptedUrls?: string[] } = {}) {
+    super(message, 'discovery', details);
+    this.attemptedUrls = details.attemptedUrls || [];
+  }
+}
+
+export class RegistrationError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'registration', details);
+  }
+}
+
+export class DeviceAuthorizationError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'device_authorization', details);
+  }
+}
+
+export class TokenExchangeError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'token_exchange', details);
+  }
+}
+
+export class RefreshError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'refresh', details);
+  }
+}
+
+export class RevocationError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'revocation', details);
+  }
+}
+
+/**
+ * An OpenID Connect id_token or userinfo response failed validation, or could not be fetched.
+ */
+export class IdentityError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'identity', details);
+  }
+}
+
+/**
+ * The user or the authorization server declined the authorization request, e.g. `access_denied`
+ * on the callback or while polling the device flow.
+ */
+export class AuthorizationDeniedError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'authorization', details);
+  }
+}
+
+/**
+ * The user did not complete the authorization in time.
+ */
+export class AuthTimeoutError extends OAuthError {
+  constructor(message: string, details: OAuthErrorDetails = {}) {
+    super(message, 'authorization', details);
+  }
+}
+
+/**
+ * Copies an axios error without its `config`, `request` and `response`, which carry the request
+ * body and headers, i.e. client secrets, codes and tokens.
+ */
+function withoutRequest(error: any): unknown {
+  if (!error?.isAxiosError) {
+    return error;
+  }
+  const copy: Error & { code?: string } = new Error(error.message);
+  copy.name = error.name;
+  copy.code = error.code;
+  return copy;
+}
+
+/**
+ * Extracts the OAuth error details from a failed axios request.
+ */
+export function getOAuthErrorDetails(error: any, endpoint?: string): OAuthErrorDetails {
+  const body = error?.response?.data;
+  const oauthBody = body && typeof body === 'object' ? body : {};
+  return {
+    code: typeof oauthBody.error === 'string' ? oauthBody.error : undefined,
+    description: typeof oauthBody.error_description === 'string' ? oauthBody.error_description : undefined,
+    uri: typeof oauthBody.error_uri === 'string' ? oauthBody.error_uri : undefined,
+    endpoint,
+    status: error?.response?.status,
+    responseBody: body,
+    cause: withoutRequest(error)
+  };
+}
+
+/**
+ * Wraps a failed request in the given OAuthError subclass. The message is `message` followed by
+ * the OAuth error code and description, the HTTP status, or the network error.
+ */
+export function toOAuthError<E extends OAuthError>(
+  ErrorClass: new (message: string, details: OAuthErrorDetails) => E,
+  message: string,
+  error: any,
+  endpoint?: string
+): E {
+  if (error instanceof ErrorClass) {
+    return error;
+  }
+
+  const details = getOAuthErrorDetails(error, endpoint);
+  let reason: string;
+  if (details.code) {
+    reason = details.description ? `${details.code} (${details.description})` : details.code;
+  } else if (details.status !== undefined) {
+    reason = `HTTP ${details.status}`;
+  } else {
+    reason = error?.message || String(error);
+  }
+
+  return new ErrorClass(`${message}: ${reason}`, details);
+}
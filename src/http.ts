@@ -0,0 +1,388 @@
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { Duplex, PassThrough, Readable } from 'stream';
+import { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { getDefaultLogger } from './utils';
+import { OAuthLogger } from './types';
+
+export interface HttpOptions {
+  /** Axios instance to send requests with, e.g. one with interceptors or agents already set up */
+  axios?: AxiosInstance;
+  /** fetch implementation to send requests with instead of axios */
+  fetch?: FetchLike;
+  /** Per-request timeout in milliseconds (default: 30 seconds) */
+  timeoutMs?: number;
+  /** Retries after a network error or a 429/5xx response (default: 2) */
+  retries?: number;
+  /** Initial backoff between retries, doubled on each attempt (default: 500 ms) */
+  retryDelayMs?: number;
+  /** Longest `Retry-After` to wait for; a server asking for more is not retried (default: 30 seconds) */
+  maxRetryDelayMs?: number;
+  /**
+   * Proxy URL for all requests, or false to connect directly. Defaults to `HTTPS_PROXY` / `HTTP_PROXY`,
+   * skipping hosts listed in `NO_PROXY`. Not used with a custom `axios` instance or `fetch`.
+   */
+  proxy?: string | false;
+  /**
+   * Additional trusted CA certificates (PEM), e.g. a corporate root CA. The system CAs stay trusted.
+   * Not used with a custom `axios` instance or `fetch`.
+   */
+  ca?: string | Buffer | Array<string | Buffer>;
+  logger?: OAuthLogger;
+}
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  /** Safe to send again after a network error or 5xx, e.g. GET or token revocation */
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30 * 1000;
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * Proxy from `HTTPS_PROXY` / `HTTP_PROXY` (or their lower-case forms) for a URL, unless `NO_PROXY`
+ * excludes its host. `NO_PROXY` entries are host names matching the host and its subdomains,
+ * optionally with a port, or `*`.
+ */
+export function getProxyForUrl(url: string | URL, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const target = new URL(url.toString());
+  const proxy = target.protocol === 'https:'
+    ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+    : env.HTTP_PROXY || env.http_proxy;
+  if (!proxy) {
+    return undefined;
+  }
+
+  const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  const noProxy = (env.NO_PROXY || env.no_proxy || '').split(/[\s,]+/).filter(Boolean);
+  const bypass = noProxy.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const match = entry.toLowerCase().match(/^(.*?)(?::(\d+))?$/)!;
+    if (match[2] && match[2] !== port) {
+      return false;
+    }
+    const domain = match[1].replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+  return bypass ? undefined : proxy;
+}
+
+/**
+ * Agent tunnelling HTTPS requests through an HTTP(S) proxy with `CONNECT`, so TLS is end to end.
+ * The TLS socket is returned right away on top of a stream that is joined to the tunnel once the
+ * proxy accepts it; until then the TLS handshake waits in the stream's buffer.
+ */
+class TunnelAgent extends https.Agent {
+  constructor(private readonly proxy: URL, options: https.AgentOptions) {
+    super(options);
+  }
+
+  createConnection(options: tls.ConnectionOptions & http.ClientRequestArgs): Duplex {
+    const proxy = this.proxy;
+    const target = `${options.host}:${options.port}`;
+    const headers: Record<string, string> = { Host: target };
+    if (proxy.username) {
+      const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+      headers['Proxy-Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const fromTunnel = new PassThrough();
+    const toTunnel = new PassThrough();
+    const socket = tls.connect({
+      ...options,
+      socket: Duplex.from({ readable: fromTunnel, writable: toTunnel }),
+      servername: options.servername || options.host || undefined
+    });
+
+    const request = (proxy.protocol === 'https:' ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: target,
+      headers,
+      timeout: options.timeout
+    });
+    request.once('connect', (response, tunnel) => {
+      if (response.statusCode !== 200) {
+        tunnel.destroy();
+        socket.destroy(new Error(`Proxy ${proxy.host} refused to connect to ${target}: HTTP ${response.statusCode}`));
+        return;
+      }
+      toTunnel.pipe(tunnel).pipe(fromTunnel);
+      tunnel.once('error', (error) => socket.destroy(error));
+      socket.once('close', () => tunnel.destroy());
+    });
+    request.once('timeout', () => request.destroy(new Error(`Proxy ${proxy.host} timed out`)));
+    request.once('error', (error) => socket.destroy(error));
+    request.end();
+    return socket;
+  }
+}
+
+/**
+ * Axios adapter sending requests with a fetch implementation. Responses are parsed as JSON when
+ * possible, and statuses rejected by `validateStatus` throw an AxiosError like axios' own adapters.
+ */
+function createFetchAdapter(fetchImpl: FetchLike): AxiosAdapter {
+  return async (config) => {
+    const url = axios.getUri(config);
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(config.headers?.toJSON?.() ?? config.headers ?? {})) {
+      if (value !== undefined && value !== null && value !== false) {
+        headers.set(name, String(value));
+      }
+    }
+
+    const signal = config.timeout ? AbortSignal.timeout(config.timeout) : undefined;
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method: (config.method || 'get').toUpperCase(),
+        headers,
+        body: config.data,
+        redirect: config.maxRedirects === 0 ? 'manual' : 'follow',
+        signal
+      });
+    } catch (error: any) {
+      const timedOut = error?.name === 'TimeoutError' || error?.name === 'AbortError';
+      throw new AxiosError(
+        timedOut ? `timeout of ${config.timeout}ms exceeded` : error?.message || 'Network Error',
+        timedOut ? AxiosError.ETIMEDOUT : AxiosError.ERR_NETWORK,
+        config
+      );
+    }
+
+    let data: unknown;
+    if (config.responseType === 'stream') {
+      await response.body?.cancel();
+    } else {
+      const text = await response.text();
+      try {
+        data = text ? JSON.parse(text) : undefined;
+      } catch {
+        data = text;
+      }
+    }
+
+    const result: AxiosResponse = {
+      data,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      config,
+      request: undefined
+    };
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        result
+      );
+    }
+    return result;
+  };
+}
+
+/**
+ * Milliseconds to wait according to a `Retry-After` header (delay-seconds or HTTP-date).
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * HTTP client for all requests to authorization servers: discovery, registration, token, device
+ * and revocation endpoints. Adds timeouts, retries with exponential backoff, proxy support and
+ * additional CAs on top of axios, or sends requests through a custom axios instance or fetch.
+ *
+ * Network errors and 5xx responses are retried for idempotent requests only; 429 and 503
+ * responses carrying `Retry-After` are retried for any request, as the server did not process it.
+ */
+export class HttpClient {
+  private readonly client: AxiosInstance;
+  private readonly agents = new Map<string, https.Agent>();
+
+  constructor(private readonly options: HttpOptions = {}) {
+    if (options.axios) {
+      this.client = options.axios;
+    } else if (options.fetch) {
+      this.client = axios.create({ adapter: createFetchAdapter(options.fetch) });
+    } else {
+      this.client = axios.create();
+    }
+  }
+
+  private get logger(): OAuthLogger {
+    return this.options.logger || getDefaultLogger();
+  }
+
+  private get usesDefaultTransport(): boolean {
+    return !this.options.axios && !this.options.fetch;
+  }
+
+  private get ca(): Array<string | Buffer> | undefined {
+    if (!this.options.ca) {
+      return undefined;
+    }
+    const extra = Array.isArray(this.options.ca) ? this.options.ca : [this.options.ca];
+    // Passing `ca` replaces the bundled roots, so keep them
+    return [...tls.rootCertificates, ...extra];
+  }
+
+  private getAgent(proxy?: URL): https.Agent | undefined {
+    if (!proxy && !this.options.ca) {
+      return undefined;
+    }
+    const key = proxy?.toString() || 'direct';
+    let agent = this.agents.get(key);
+    if (!agent) {
+      const tlsOptions: https.AgentOptions = { ca: this.ca, keepAlive: !proxy };
+      agent = proxy ? new TunnelAgent(proxy, tlsOptions) : new https.Agent(tlsOptions);
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * Routes a request through the configured or environment proxy and trusts the extra CAs.
+   */
+  private applyTransport(config: AxiosRequestConfig): AxiosRequestConfig {
+    if (!this.usesDefaultTransport) {
+      return config;
+    }
+
+    const url = new URL(axios.getUri(config));
+    let proxyUrl: string | undefined;
+    if (this.options.proxy === undefined) {
+      proxyUrl = getProxyForUrl(url);
+    } else if (this.options.proxy) {
+      // An explicit proxy still honors NO_PROXY
+      proxyUrl = getProxyForUrl(url, { ...process.env, HTTPS_PROXY: this.options.proxy, HTTP_PROXY: this.options.proxy });
+    }
+    // Proxies are resolved here, axios must not apply the environment again
+    const transport: AxiosRequestConfig = { proxy: false };
+    if (proxyUrl) {
+      const proxy = new URL(proxyUrl.includes('://') ? proxyUrl : `http://${proxyUrl}`);
+      if (url.protocol === 'https:') {
+        transport.httpsAgent = this.getAgent(proxy);
+      } else {
+        transport.proxy = {
+          protocol: proxy.protocol.replace(':', ''),
+          host: proxy.hostname,
+          port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+          auth: proxy.username
+            ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) }
+            : undefined
+        };
+      }
+      this.logger.debug(`Using proxy ${proxy.host} for ${url.origin}`);
+    } else if (url.protocol === 'https:') {
+      transport.httpsAgent = this.getAgent();
+    }
+    return { ...config, ...transport };
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when the request must not be retried.
+   */
+  private getRetryDelay(config: HttpRequestConfig, attempt: number, error?: any, response?: AxiosResponse): number | undefined {
+    const retries = this.options.retries ?? DEFAULT_RETRIES;
+    if (attempt >= retries || axios.isCancel(error)) {
+      return undefined;
+    }
+
+    const status = response?.status ?? error?.response?.status;
+    const headers = response?.headers ?? error?.response?.headers;
+    const retryAfter = parseRetryAfter(headers?.['retry-after']);
+    const idempotent = config.idempotent ?? IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+
+    let retryable: boolean;
+    if ((status === 429 || status === 503) && retryAfter !== undefined) {
+      retryable = true;
+    } else if (status === undefined) {
+      retryable = idempotent && Boolean(error);
+    } else {
+      retryable = idempotent && (status === 429 || status >= 500);
+    }
+    if (!retryable) {
+      return undefined;
+    }
+
+    const maxDelay = this.options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+    if (retryAfter !== undefined) {
+      return retryAfter <= maxDelay ? retryAfter : undefined;
+    }
+    const backoff = (this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** attempt;
+    // Jitter spreads out clients that failed at the same moment
+    return Math.min(backoff / 2 + Math.random() * backoff / 2, maxDelay);
+  }
+
+  /**
+   * Sends a request, retrying it when allowed. Pass a function to build the request anew for each
+   * attempt, e.g. when it carries a single-use client assertion or DPoP proof.
+   */
+  async request<T = any>(config: HttpRequestConfig | (() => HttpRequestConfig | Promise<HttpRequestConfig>)): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const requestConfig = typeof config === 'function' ? await config() : config;
+      const { idempotent, ...axiosConfig } = requestConfig;
+      const prepared = this.applyTransport({
+        ...axiosConfig,
+        timeout: axiosConfig.timeout ?? (this.client.defaults.timeout || (this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS))
+      });
+
+      let response: AxiosResponse<T> | undefined;
+      let failure: any;
+      try {
+        response = await this.client.request<T>(prepared);
+      } catch (error) {
+        failure = error;
+      }
+
+      const delay = this.getRetryDelay(requestConfig, attempt, failure, response);
+      if (delay === undefined) {
+        if (failure) {
+          throw failure;
+        }
+        return response!;
+      }
+
+      // Free the socket of a streamed body that will not be read
+      if (response?.data instanceof Readable) {
+        response.data.destroy();
+      }
+      const reason = failure?.response?.status ?? response?.status ?? failure?.code ?? failure?.message;
+      this.logger.debug(`${(prepared.method || 'get').toUpperCase()} ${prepared.url} failed (${reason}), retrying in ${Math.round(delay)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  get<T = any>(url: string, config: HttpRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'get', url });
+  }
+
+  post<T = any>(url: string, data?: unknown, config: HttpRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'post', url, data });
+  }
+
+  delete<T = any>(url: string, config: HttpRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'delete', url });
+  }
+}
@@ -1,14 +1,74 @@
 export { OAuthClientProvider } from './OAuthClientProvider';
+export {
+  OAuthError,
+  DiscoveryError,
+  RegistrationError,
+  DeviceAuthorizationError,
+  TokenExchangeError,
+  RefreshError,
+  RevocationError,
+  AuthorizationDeniedError,
+  AuthTimeoutError,
+  IdentityError
+} from './errors';
+export type { OAuthErrorPhase, OAuthErrorDetails } from './errors';
+export { OAuthProviderRegistry } from './OAuthProviderRegistry';
+export type { OAuthProviderRegistryOptions, OAuthRegistryServerConfig } from './OAuthProviderRegistry';
+export { SharedOAuthCallbackServer, escapeHtml } from './oauth-server';
+export type { SharedOAuthCallbackServerOptions, OAuthCallbackTarget } from './oauth-server';
 export type { 
   OAuthClientProviderOptions,
   OAuthProviderOptions,
   AuthState,
-  TokenStorage 
+  TokenStorage,
+  StoredOAuthTokens,
+  StoredServerMetadata,
+  CachedDiscovery,
+  CachedDocument,
+  AuthorizationSession,
+  CredentialScope,
+  DeviceAuthorizationInfo,
+  ClientAssertionKey,
+  TokenEndpointAuthMethod,
+  CallbackPageOptions,
+  CallbackErrorInfo,
+  AuthStatus,
+  LogLevel,
+  OAuthLogger,
+  OAuthProviderEvents,
+  TokenEventInfo,
+  LogoutOptions,
+  ProfileInfo
 } from './types';
 export { 
   FileTokenStorage,
+  InMemoryTokenStorage,
   getServerUrlHash,
+  DEFAULT_PROFILE,
+  isTokenExpired,
+  isDisplayAvailable,
   log,
   debugLog,
-  DEBUG 
-} from './utils';
\ No newline at end of file
+  DEBUG,
+  redact,
+  createConsoleLogger,
+  createRedactingLogger,
+  setDefaultLogger
+} from './utils';
+export {
+  discoverAuthorization,
+  extractResourceMetadataUrl,
+  extractInsufficientScope,
+  parseWWWAuthenticate,
+  buildProtectedResourceMetadataUrls,
+  buildAuthorizationServerMetadataUrls
+} from './discovery';
+export type { DiscoveryOptions, DiscoveryResult } from './discovery';
+export type { FileTokenStorageOptions } from './utils';
+export type { FileLockOptions } from './lock';
+export { ENCRYPTION_KEY_ENV, ENCRYPTION_KEY_FILE_ENV } from './encryption';
+export { createDPoPProof, generateDPoPKey, dpopKeyThumbprint } from './dpop';
+export { HttpClient, getProxyForUrl } from './http';
+export type { HttpOptions, HttpRequestConfig } from './http';
+export { validateIdToken } from './oidc';
+export type { Identity, IdTokenClaims, IdTokenValidationOptions, JsonWebKeySet, UserInfo } from './oidc';
\ No newline at end of file
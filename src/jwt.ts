@@ -0,0 +1,158 @@
+import crypto, { KeyObject } from 'crypto';
+import { ClientAssertionKey } from './types';
+
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function hashForAlgorithm(alg: string): string | null {
+  if (alg === 'EdDSA') {
+    return null;
+  }
+  const bits = alg.slice(2);
+  if (!['256', '384', '512'].includes(bits)) {
+    throw new Error(`Unsupported JWT algorithm: ${alg}`);
+  }
+  return `sha${bits}`;
+}
+
+/**
+ * Picks the conventional JWS algorithm for a private or public key.
+ */
+export function defaultAlgorithm(key: KeyObject): string {
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      return 'RS256';
+    case 'rsa-pss':
+      return 'PS256';
+    case 'ec': {
+      const curve = key.asymmetricKeyDetails?.namedCurve;
+      if (curve === 'secp384r1') return 'ES384';
+      if (curve === 'secp521r1') return 'ES512';
+      return 'ES256';
+    }
+    case 'ed25519':
+    case 'ed448':
+      return 'EdDSA';
+    default:
+      throw new Error(`Unsupported key type for JWT signing: ${key.asymmetricKeyType}`);
+  }
+}
+
+/**
+ * Signs a compact JWS. Supports RS*, PS*, ES* and EdDSA algorithms.
+ */
+export function signJwt(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  privateKey: KeyObject
+): string {
+  const alg = (header.alg as string) || defaultAlgorithm(privateKey);
+  const signingInput = `${base64url(JSON.stringify({ ...header, alg }))}.${base64url(JSON.stringify(payload))}`;
+  const hash = hashForAlgorithm(alg);
+
+  let signature: Buffer;
+  if (alg.startsWith('PS')) {
+    signature = crypto.sign(hash, Buffer.from(signingInput), {
+      key: privateKey,
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST
+    });
+  } else if (alg.startsWith('ES')) {
+    signature = crypto.sign(hash, Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  } else {
+    signature = crypto.sign(hash, Buffer.from(signingInput), privateKey);
+  }
+
+  return `${signingInput}.${base64url(signature)}`;
+}
+
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  /** The encoded header and payload the signature covers */
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Splits and parses a compact JWS without verifying it.
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT');
+  }
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8'));
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+    if (!header || typeof header !== 'object' || !payload || typeof payload !== 'object') {
+      throw new Error('not an object');
+    }
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url')
+    };
+  } catch {
+    throw new Error('Malformed JWT');
+  }
+}
+
+/**
+ * Verifies the signature of a decoded JWS with a public key. Only the asymmetric algorithms
+ * `signJwt` produces are accepted; `none` and HMAC algorithms are always rejected.
+ */
+export function verifyJwt(jwt: DecodedJwt, publicKey: KeyObject): boolean {
+  const alg = jwt.header.alg;
+  if (typeof alg !== 'string' || !/^(RS|PS|ES)(256|384|512)$|^EdDSA$/.test(alg)) {
+    return false;
+  }
+  const hash = hashForAlgorithm(alg);
+  const data = Buffer.from(jwt.signingInput);
+
+  try {
+    if (alg.startsWith('PS')) {
+      return crypto.verify(hash, data, {
+        key: publicKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST
+      }, jwt.signature);
+    }
+    if (alg.startsWith('ES')) {
+      return crypto.verify(hash, data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, jwt.signature);
+    }
+    return crypto.verify(hash, data, publicKey, jwt.signature);
+  } catch {
+    // Key and algorithm do not fit together
+    return false;
+  }
+}
+
+/**
+ * Builds a `private_key_jwt` client assertion (RFC 7523 §2.2) for the given token endpoint.
+ */
+export function createClientAssertion(clientId: string, audience: string, key: ClientAssertionKey): string {
+  const privateKey = typeof key.privateKey === 'string' ? crypto.createPrivateKey(key.privateKey) : key.privateKey;
+  const now = Math.floor(Date.now() / 1000);
+
+  const header: Record<string, unknown> = {
+    typ: 'JWT',
+    alg: key.algorithm || defaultAlgorithm(privateKey)
+  };
+  if (key.keyId) {
+    header.kid = key.keyId;
+  }
+
+  return signJwt(header, {
+    iss: clientId,
+    sub: clientId,
+    aud: audience,
+    jti: crypto.randomUUID(),
+    iat: now,
+    exp: now + 300
+  }, privateKey);
+}
@@ -0,0 +1,135 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface FileLockOptions {
+  /** How long to wait for another holder before giving up (default: 10 minutes) */
+  timeoutMs?: number;
+  /** A lock not refreshed for this long is considered abandoned (default: 30 seconds) */
+  staleMs?: number;
+}
+
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  createdAt: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_STALE_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 200;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
+
+async function isStale(lockPath: string, staleMs: number): Promise<boolean> {
+  let contents: string;
+  let mtimeMs: number;
+  try {
+    contents = await fs.readFile(lockPath, 'utf-8');
+    mtimeMs = (await fs.stat(lockPath)).mtimeMs;
+  } catch {
+    // Released in the meantime
+    return false;
+  }
+
+  if (Date.now() - mtimeMs > staleMs) {
+    return true;
+  }
+
+  try {
+    const info: LockInfo = JSON.parse(contents);
+    return info.hostname === os.hostname() && !isProcessAlive(info.pid);
+  } catch {
+    // Being written right now; fall back to the mtime check
+    return false;
+  }
+}
+
+/**
+ * Removes an abandoned lock. Recovery is itself guarded by a second lock file, so two waiters
+ * cannot both judge the old lock stale and one of them delete the lock the other just took.
+ * Returns true when the lock was removed.
+ */
+async function removeStaleLock(lockPath: string, staleMs: number): Promise<boolean> {
+  const guardPath = `${lockPath}.recover`;
+  try {
+    await fs.writeFile(guardPath, String(process.pid), { flag: 'wx', mode: 0o600 });
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') {
+      throw error;
+    }
+    // Recovery is quick, so an old guard was left behind by a process that crashed during it
+    const stat = await fs.stat(guardPath).catch(() => undefined);
+    if (stat && Date.now() - stat.mtimeMs > staleMs) {
+      await fs.unlink(guardPath).catch(() => {});
+    }
+    return false;
+  }
+
+  try {
+    if (!await isStale(lockPath, staleMs)) {
+      return false;
+    }
+    await fs.unlink(lockPath).catch(() => {});
+    return true;
+  } finally {
+    await fs.unlink(guardPath).catch(() => {});
+  }
+}
+
+/**
+ * Acquires an exclusive lock file shared by every process using the same directory, and
+ * resolves with a function that releases it. While held, the lock file's mtime is refreshed
+ * so waiters can tell a live holder from one that died; locks of dead holders are removed.
+ */
+export async function acquireFileLock(lockPath: string, options: FileLockOptions = {}): Promise<() => Promise<void>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+  const info: LockInfo = { pid: process.pid, hostname: os.hostname(), createdAt: Date.now() };
+
+  await fs.mkdir(path.dirname(lockPath), { recursive: true, mode: 0o700 });
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify(info), { flag: 'wx', mode: 0o600 });
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (await isStale(lockPath, staleMs) && await removeStaleLock(lockPath, staleMs)) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => {});
+  }, Math.max(Math.floor(staleMs / 3), 10));
+  heartbeat.unref();
+
+  return async () => {
+    clearInterval(heartbeat);
+    // Leave the file alone if it was taken over after we were considered dead
+    const current = await fs.readFile(lockPath, 'utf-8').catch(() => undefined);
+    if (current === JSON.stringify(info)) {
+      await fs.unlink(lockPath).catch(() => {});
+    }
+  };
+}
@@ -1,81 +1,344 @@
 import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
 import { EventEmitter } from 'events';
+import crypto from 'crypto';
 import { URL } from 'url';
-import { debugLog } from './utils';
+import { getDefaultLogger } from './utils';
+import { CallbackErrorInfo, CallbackPageOptions, OAuthLogger } from './types';
 
-export interface OAuthServerOptions {
-  port: number;
-  path: string;
+/**
+ * Receiver of a callback: `auth-code` (code) or `auth-error` (error, error_description) is emitted on `events`.
+ */
+export interface OAuthCallbackTarget {
   events: EventEmitter;
+  /** Expected `iss` response parameter (RFC 9207) */
+  issuer?: string;
+  /** Reject callbacks without `iss`, for servers advertising `authorization_response_iss_parameter_supported` */
+  requireIssuer?: boolean;
+  /** Pages or redirects shown once the callback for this target arrives */
+  pages?: CallbackPageOptions;
+  logger?: OAuthLogger;
+}
+
+export interface OAuthServerOptions extends OAuthCallbackTarget {
+  /** Port, or ports to try in order when one is already in use */
+  port: number | number[];
+  path: string;
+  /** Expected `state` value; callbacks carrying any other state are rejected */
+  state: string;
+}
+
+export interface SharedOAuthCallbackServerOptions {
+  /** Ports to try in order when one is already in use; 0 picks an ephemeral port */
+  ports: number[];
+  path: string;
+  /** Pages or redirects for callbacks that match no pending authorization */
+  pages?: CallbackPageOptions;
+  logger?: OAuthLogger;
+}
+
+/**
+ * Constant-time string comparison for `state` values.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Escapes a value for interpolation into HTML text or attribute values.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>${title}</title></head>
+  <body>
+    <h1>${title}</h1>
+    ${body}
+  </body>
+</html>`;
+}
+
+function defaultSuccessPage(): string {
+  return renderPage(
+    'Authentication Successful',
+    '<p>You can close this window and return to the application.</p>\n    <script>window.close();</script>'
+  );
+}
+
+function defaultErrorPage({ error, errorDescription }: CallbackErrorInfo): string {
+  const description = errorDescription ? `<p>${escapeHtml(errorDescription)}</p>\n    ` : '';
+  return renderPage(
+    'Authentication Failed',
+    `<p>Error: ${escapeHtml(error)}</p>\n    ${description}<p>You can close this window.</p>`
+  );
+}
+
+function sendSuccess(res: ServerResponse, pages: CallbackPageOptions): void {
+  if (pages.successRedirect) {
+    res.writeHead(302, { Location: pages.successRedirect, 'Cache-Control': 'no-store' });
+    res.end();
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end((pages.successPage || defaultSuccessPage)());
+}
+
+function sendFailure(res: ServerResponse, pages: CallbackPageOptions, info: CallbackErrorInfo): void {
+  if (pages.errorRedirect) {
+    const location = new URL(pages.errorRedirect);
+    location.searchParams.set('error', info.error);
+    if (info.errorDescription) {
+      location.searchParams.set('error_description', info.errorDescription);
+    }
+    res.writeHead(302, { Location: location.toString(), 'Cache-Control': 'no-store' });
+    res.end();
+    return;
+  }
+  res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end((pages.errorPage || defaultErrorPage)(info));
+}
+
+/**
+ * Handles one request to the callback server. Returns true when the request completed the
+ * authorization of its target, i.e. a code or an error was delivered.
+ */
+function handleCallbackRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  findTarget: (state: string) => OAuthCallbackTarget | undefined,
+  fallbackPages: CallbackPageOptions,
+  logger: OAuthLogger
+): boolean {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  // Browsers ask for a favicon and tools probe the port; answer quietly without involving any flow
+  if (url.pathname === '/favicon.ico') {
+    res.writeHead(204);
+    res.end();
+    return false;
+  }
+  if (url.pathname !== path || (req.method !== 'GET' && req.method !== 'HEAD')) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not Found');
+    return false;
+  }
+
+  const code = url.searchParams.get('code');
+  const error = url.searchParams.get('error');
+  const state = url.searchParams.get('state');
+  const iss = url.searchParams.get('iss');
+
+  // Reject callbacks that did not originate from one of our authorization requests (CSRF)
+  const target = state ? findTarget(state) : undefined;
+  if (!target) {
+    logger.debug('Rejected OAuth callback with missing or mismatched state');
+    sendFailure(res, fallbackPages, {
+      error: 'invalid_state',
+      errorDescription: 'This response does not belong to a pending login.'
+    });
+    return false;
+  }
+  const pages = target.pages || fallbackPages;
+
+  // RFC 9207: the response must come from the authorization server we sent the user to
+  if (target.issuer && (iss ? iss !== target.issuer : target.requireIssuer)) {
+    logger.debug(`Rejected OAuth callback from issuer ${iss || '(none)'}, expected ${target.issuer}`);
+    sendFailure(res, pages, {
+      error: 'invalid_issuer',
+      errorDescription: 'This response did not come from the expected authorization server.'
+    });
+    target.events.emit('auth-error', 'invalid_issuer');
+    return true;
+  }
+
+  if (error) {
+    const errorDescription = url.searchParams.get('error_description') || undefined;
+    sendFailure(res, pages, { error, errorDescription });
+    target.events.emit('auth-error', error, errorDescription);
+    return true;
+  }
+
+  if (code) {
+    sendSuccess(res, pages);
+    target.events.emit('auth-code', code);
+    return true;
+  }
+
+  sendFailure(res, pages, { error: 'invalid_request', errorDescription: 'No authorization code received.' });
+  return false;
 }
 
-export function createOAuthCallbackServer(options: OAuthServerOptions): Promise<Server> {
+/**
+ * Listens on the first port of `ports` that is not already in use and resolves with the bound port.
+ */
+function listenOnFirstAvailablePort(server: Server, ports: number[], logger: OAuthLogger): Promise<number> {
   return new Promise((resolve, reject) => {
-    const server = createServer((req: IncomingMessage, res: ServerResponse) => {
-      if (!req.url) {
-        res.writeHead(400);
-        res.end('Bad Request');
-        return;
-      }
-
-      const url = new URL(req.url, `http://localhost:${options.port}`);
-      
-      if (url.pathname === options.path) {
-        const code = url.searchParams.get('code');
-        const error = url.searchParams.get('error');
-        
-        if (error) {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>Authentication Failed</h1>
-                <p>Error: ${error}</p>
-                <p>You can close this window.</p>
-              </body>
-            </html>
-          `);
-          options.events.emit('auth-error', error);
-          return;
-        }
-        
-        if (code) {
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>Authentication Successful</h1>
-                <p>You can close this window and return to the application.</p>
-                <script>window.close();</script>
-              </body>
-            </html>
-          `);
-          options.events.emit('auth-code', code);
+    let index = 0;
+
+    const tryNext = () => {
+      const port = ports[index++];
+
+      const onError = (error: NodeJS.ErrnoException) => {
+        server.off('listening', onListening);
+        if (error.code === 'EADDRINUSE' && index < ports.length) {
+          logger.debug(`Callback port ${port} is in use, trying the next one`);
+          tryNext();
         } else {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>Authentication Failed</h1>
-                <p>No authorization code received.</p>
-                <p>You can close this window.</p>
-              </body>
-            </html>
-          `);
+          reject(error);
         }
-      } else {
-        res.writeHead(404);
-        res.end('Not Found');
-      }
-    });
+      };
 
-    server.listen(options.port, () => {
-      debugLog(`OAuth callback server listening on port ${options.port}`);
-      resolve(server);
-    });
+      const onListening = () => {
+        server.off('error', onError);
+        server.on('error', (error) => logger.debug('OAuth callback server error', error));
+        const boundPort = (server.address() as AddressInfo).port;
+        logger.debug(`OAuth callback server listening on port ${boundPort}`);
+        resolve(boundPort);
+      };
 
-    server.on('error', (error) => {
-      reject(error);
-    });
+      server.once('error', onError);
+      server.once('listening', onListening);
+      server.listen(port);
+    };
+
+    tryNext();
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Starts a callback server for a single authorization. The server shuts itself down once the
+ * callback has delivered a code or an error.
+ */
+export async function createOAuthCallbackServer(options: OAuthServerOptions): Promise<Server> {
+  const logger = options.logger || getDefaultLogger();
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const completed = handleCallbackRequest(
+      req,
+      res,
+      options.path,
+      (state) => safeEqual(state, options.state) ? options : undefined,
+      options.pages || {},
+      logger
+    );
+    if (completed) {
+      // Stop accepting connections, and drop the browser's keep-alive connection once the page is sent
+      res.once('finish', () => server.closeIdleConnections());
+      server.close(() => logger.debug('OAuth callback server closed'));
+    }
+  });
+
+  await listenOnFirstAvailablePort(server, Array.isArray(options.port) ? options.port : [options.port], logger);
+  return server;
+}
+
+/**
+ * One callback server for several providers. Each pending authorization registers its `state`,
+ * and callbacks are routed to the provider that issued that state. The server starts listening
+ * on first registration.
+ */
+export class SharedOAuthCallbackServer {
+  private server?: Server;
+  private listening?: Promise<number>;
+  private targets = new Map<string, OAuthCallbackTarget>();
+  private lastPort?: number;
+
+  constructor(private readonly options: SharedOAuthCallbackServerOptions) {}
+
+  private get logger(): OAuthLogger {
+    return this.options.logger || getDefaultLogger();
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * Routes callbacks carrying `state` to `target`, and resolves with the port the server listens on.
+   * When the server is not running yet, it is started on the first free port of `preferredPorts`,
+   * e.g. the one in the caller's registered redirect URI, before trying its own ports.
+   */
+  async register(state: string, target: OAuthCallbackTarget, preferredPorts: number[] = []): Promise<number> {
+    this.targets.set(state, target);
+    try {
+      return await this.listen(preferredPorts);
+    } catch (error) {
+      this.targets.delete(state);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops routing callbacks for `state`. The server shuts down once no authorization is pending,
+   * and reuses its port when the next one starts.
+   */
+  unregister(state: string): void {
+    this.targets.delete(state);
+    if (this.targets.size === 0 && this.server) {
+      this.close().catch((error) => this.logger.debug('Error closing OAuth callback server', error));
+    }
+  }
+
+  private listen(preferredPorts: number[]): Promise<number> {
+    if (!this.listening) {
+      const ports = Array.from(new Set([
+        ...preferredPorts.filter((port) => port !== 0),
+        ...(this.lastPort !== undefined ? [this.lastPort] : []),
+        ...this.options.ports
+      ]));
+      const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+        const completed = handleCallbackRequest(
+          req,
+          res,
+          this.options.path,
+          (state) => this.targets.get(state),
+          this.options.pages || {},
+          this.logger
+        );
+        if (completed) {
+          // The last callback closes the server; drop the browser's keep-alive connection once the page
+          // is sent, or it would reach this server instead of the next one started on the same port
+          res.once('finish', () => {
+            if (!server.listening) {
+              server.closeIdleConnections();
+            }
+          });
+        }
+      });
+      this.server = server;
+      this.listening = listenOnFirstAvailablePort(this.server, ports, this.logger).then((port) => {
+        this.lastPort = port;
+        return port;
+      }, (error) => {
+        this.server = undefined;
+        this.listening = undefined;
+        throw error;
+      });
+    }
+    return this.listening;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.listening = undefined;
+    this.targets.clear();
+    if (server?.listening) {
+      await new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+        server.closeIdleConnections();
+      });
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import crypto, { JsonWebKey } from 'crypto';
+import { decodeJwt, verifyJwt } from './jwt';
+import { IdentityError } from './errors';
+
+/**
+ * Claims of a validated id_token (OpenID Connect Core §2).
+ */
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  at_hash?: string;
+  auth_time?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Claims returned by the userinfo endpoint (OpenID Connect Core §5.3).
+ */
+export interface UserInfo {
+  sub: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * The signed-in user, taken from the id_token.
+ */
+export interface Identity {
+  issuer: string;
+  subject: string;
+  email?: string;
+  name?: string;
+  /** `preferred_username` */
+  username?: string;
+  claims: IdTokenClaims;
+}
+
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+export interface IdTokenValidationOptions {
+  /** Expected `iss`: the authorization server's issuer */
+  issuer: string;
+  /** Expected audience and authorized party */
+  clientId: string;
+  /**
+   * Keys of the authorization server, or a function returning them. A function is called again
+   * with `refresh` set when no key matches the token, e.g. after the server rotated its keys.
+   */
+  jwks: JsonWebKeySet | ((refresh: boolean) => Promise<JsonWebKeySet>);
+  /** The nonce sent with the authorization request */
+  nonce?: string;
+  /** Access token issued with the id_token, checked against `at_hash` when present */
+  accessToken?: string;
+  /** Tolerance for `exp` and `iat` (default: 60) */
+  clockSkewSeconds?: number;
+}
+
+const KEY_TYPES: Record<string, string> = { RS: 'RSA', PS: 'RSA', ES: 'EC', Ed: 'OKP' };
+
+/**
+ * Signing keys in the set that could have produced a token with this header: matching `kid`
+ * when the header has one, and a key type and `alg` that fit the token's algorithm.
+ */
+function selectKeys(jwks: JsonWebKeySet, header: Record<string, unknown>): JsonWebKey[] {
+  const alg = String(header.alg);
+  return (jwks.keys || []).filter((key) =>
+    key.kty === KEY_TYPES[alg.slice(0, 2)]
+    && key.use !== 'enc'
+    && (key.alg === undefined || key.alg === alg)
+    && (header.kid === undefined || key.kid === header.kid));
+}
+
+/**
+ * `at_hash`: the left half of the access token's hash, with the hash of the signing algorithm
+ * (OpenID Connect Core §3.1.3.6).
+ */
+function accessTokenHash(accessToken: string, alg: string): string {
+  const hash = alg === 'EdDSA' ? 'sha512' : `sha${alg.slice(2)}`;
+  const digest = crypto.createHash(hash).update(accessToken).digest();
+  return digest.subarray(0, digest.length / 2).toString('base64url');
+}
+
+/**
+ * Validates an id_token as required by OpenID Connect Core §3.1.3.7: the signature against the
+ * issuer's keys, `iss`, `aud`, `azp`, `exp`, `iat`, `nonce` and `at_hash`. Returns its claims.
+ */
+export async function validateIdToken(idToken: string, options: IdTokenValidationOptions): Promise<IdTokenClaims> {
+  let jwt;
+  try {
+    jwt = decodeJwt(idToken);
+  } catch {
+    throw new IdentityError('Malformed id_token');
+  }
+
+  const getKeys = typeof options.jwks === 'function' ? options.jwks : async () => options.jwks as JsonWebKeySet;
+  let keys = selectKeys(await getKeys(false), jwt.header);
+  if (keys.length === 0 && typeof options.jwks === 'function') {
+    keys = selectKeys(await getKeys(true), jwt.header);
+  }
+  if (keys.length === 0) {
+    throw new IdentityError(`No key of the issuer matches the id_token (alg ${jwt.header.alg}, kid ${jwt.header.kid ?? 'none'})`);
+  }
+  const verified = keys.some((key) => {
+    try {
+      return verifyJwt(jwt, crypto.createPublicKey({ key, format: 'jwk' }));
+    } catch {
+      return false;
+    }
+  });
+  if (!verified) {
+    throw new IdentityError('Invalid id_token signature');
+  }
+
+  const claims = jwt.payload as IdTokenClaims;
+  if (claims.iss !== options.issuer) {
+    throw new IdentityError(`id_token issuer ${claims.iss} does not match ${options.issuer}`);
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new IdentityError('id_token has no subject');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.clientId)) {
+    throw new IdentityError('id_token was not issued for this client');
+  }
+  if (audiences.length > 1 && claims.azp === undefined) {
+    throw new IdentityError('id_token has several audiences but no azp');
+  }
+  if (claims.azp !== undefined && claims.azp !== options.clientId) {
+    throw new IdentityError('id_token was authorized for another client');
+  }
+
+  const skew = options.clockSkewSeconds ?? 60;
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + skew <= now) {
+    throw new IdentityError('id_token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - skew > now) {
+    throw new IdentityError('id_token has an invalid issue time');
+  }
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    throw new IdentityError('id_token nonce does not match the authorization request');
+  }
+  if (options.accessToken && claims.at_hash !== undefined
+    && claims.at_hash !== accessTokenHash(options.accessToken, String(jwt.header.alg))) {
+    throw new IdentityError('id_token at_hash does not match the access token');
+  }
+  return claims;
+}
+
+export function identityFromClaims(claims: IdTokenClaims): Identity {
+  return {
+    issuer: claims.iss,
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    username: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined,
+    claims
+  };
+}
@@ -0,0 +1,857 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import axios from 'axios';
+import { CLIENT_ASSERTION_TYPE, decodeJwt, DecodedJwt, signJwt, verifyJwt } from './jwt';
+
+export type MockEndpoint = 'discovery' | 'register' | 'authorize' | 'token' | 'revoke' | 'userinfo' | 'mcp';
+
+export interface MockErrorInjection {
+  /** OAuth `error` code, e.g. `invalid_grant` or `access_denied` */
+  error: string;
+  errorDescription?: string;
+  /** HTTP status (default: 400, ignored for `authorize`, which redirects with the error) */
+  status?: number;
+  /** Sent as `Retry-After` in seconds, e.g. with status 429 or 503 */
+  retryAfter?: number;
+  /** Only fail this token grant, e.g. `refresh_token` */
+  grantType?: string;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+}
+
+export interface MockAuthorizationServerOptions {
+  /** Port to listen on (default: an ephemeral port) */
+  port?: number;
+  /** `scopes_supported`, and the scope granted when none is requested */
+  scopes?: string[];
+  /** Access token lifetime in seconds (default: 3600) */
+  accessTokenTtl?: number;
+  /** Issue a new refresh token on every refresh (default: true) */
+  rotateRefreshTokens?: boolean;
+  /** Advertise and serve the device authorization endpoint (default: false) */
+  deviceFlow?: boolean;
+  /** Fields merged into the authorization server metadata; `undefined` removes a field */
+  metadata?: Record<string, unknown>;
+  /** `Cache-Control: max-age` of the metadata documents in seconds (default: 3600) */
+  metadataMaxAge?: number;
+  /** Claims merged into issued id_tokens, e.g. a wrong `aud`; `undefined` removes a claim */
+  idTokenClaims?: Record<string, unknown>;
+  /** Nonce DPoP proofs must carry (RFC 9449 §8); proofs without it are answered with `use_dpop_nonce` */
+  dpopNonce?: string;
+}
+
+/**
+ * The user the server signs in; `sub` and any other claims end up in id_tokens and userinfo.
+ */
+export interface MockUser {
+  sub: string;
+  [claim: string]: unknown;
+}
+
+export interface MockClient {
+  client_id: string;
+  client_secret?: string;
+  redirect_uris: string[];
+  token_endpoint_auth_method: string;
+  grant_types: string[];
+  registration_access_token: string;
+  [key: string]: unknown;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: Record<string, string>;
+  headers: IncomingMessage['headers'];
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scope?: string;
+  resource?: string;
+  nonce?: string;
+  dpopJkt?: string;
+  user: MockUser;
+}
+
+interface IssuedToken {
+  clientId: string;
+  scope?: string;
+  resource?: string;
+  user?: MockUser;
+  /** Thumbprint of the DPoP key the token is bound to */
+  jkt?: string;
+  expiresAt: number;
+}
+
+interface DPoPCheck {
+  /** Thumbprint of the proof's key, undefined without a proof */
+  jkt?: string;
+  error?: 'invalid_dpop_proof' | 'use_dpop_nonce';
+}
+
+interface DeviceCode {
+  clientId: string;
+  userCode: string;
+  scope?: string;
+  user?: MockUser;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * In-process OAuth 2.1 authorization server and protected MCP endpoint for tests. Serves Protected
+ * Resource Metadata and Authorization Server Metadata, dynamic client registration (with RFC 7592
+ * deletion), an authorize endpoint that approves immediately and redirects, the token endpoint
+ * (authorization code with PKCE, refresh token, client credentials and device code grants), and
+ * token revocation. A valid DPoP proof at the token endpoint gets a DPoP-bound token, which the
+ * MCP endpoint then only accepts with a proof from the same key. Confidential clients authenticate with their secret, or with a `private_key_jwt`
+ * assertion signed by a key in their registered `jwks`. Requests with the `openid` scope also get an
+ * id_token for `user`, signed with a key served at `jwks_uri`, and the userinfo endpoint returns its
+ * claims. Failures can be injected per endpoint with `injectError`.
+ *
+ * ```typescript
+ * const server = new MockAuthorizationServer();
+ * await server.start();
+ * const browser = new BrowserStub();
+ * const provider = new OAuthClientProvider({
+ *   serverUrl: server.mcpUrl,
+ *   host: 'localhost',
+ *   storage: new InMemoryTokenStorage(),
+ *   onAuthorizationUrl: browser.open
+ * });
+ * ```
+ */
+export class MockAuthorizationServer {
+  readonly clients = new Map<string, MockClient>();
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+  /** The user signed in by the authorize endpoint and device approvals; replace it to switch accounts */
+  user: MockUser = { sub: 'user-1', email: 'user@example.com', name: 'Test User' };
+
+  private server?: Server;
+  private baseUrl?: string;
+  private codes = new Map<string, IssuedCode>();
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Map<string, IssuedToken>();
+  private deviceCodes = new Map<string, DeviceCode>();
+  private errors = new Map<MockEndpoint, MockErrorInjection[]>();
+  private signingKey?: crypto.KeyPairKeyObjectResult;
+  private keyId = randomToken();
+  private assertionIds = new Set<string>();
+  private dpopProofIds = new Set<string>();
+
+  constructor(private readonly options: MockAuthorizationServerOptions = {}) {}
+
+  /** Issuer and base URL of the server */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('MockAuthorizationServer is not started');
+    }
+    return this.baseUrl;
+  }
+
+  /** URL of the protected MCP endpoint, to use as the provider's `serverUrl` */
+  get mcpUrl(): string {
+    return `${this.url}/mcp`;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.sendJson(res, 500, { error: 'server_error', error_description: String(error?.message || error) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port ?? 0, 'localhost', () => resolve());
+    });
+    this.baseUrl = `http://localhost:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server?.listening) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+  }
+
+  /**
+   * Makes the next request(s) to `endpoint` fail with the given OAuth error.
+   */
+  injectError(endpoint: MockEndpoint, injection: MockErrorInjection): void {
+    const queue = this.errors.get(endpoint) || [];
+    queue.push({ times: 1, ...injection });
+    this.errors.set(endpoint, queue);
+  }
+
+  /**
+   * Whether an access token is currently accepted by the MCP endpoint.
+   */
+  isAccessTokenValid(accessToken: string): boolean {
+    const token = this.accessTokens.get(accessToken);
+    return Boolean(token && token.expiresAt > Date.now());
+  }
+
+  /**
+   * Expires every issued access token, so the next MCP request is rejected.
+   */
+  expireAccessTokens(): void {
+    for (const token of this.accessTokens.values()) {
+      token.expiresAt = 0;
+    }
+  }
+
+  /**
+   * Revokes every issued refresh token, so the next refresh fails with `invalid_grant`.
+   */
+  revokeRefreshTokens(): void {
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Approves a pending device authorization as `user`, as the user would on the verification page.
+   */
+  approveDevice(userCode: string): void {
+    for (const device of this.deviceCodes.values()) {
+      if (device.userCode === userCode) {
+        device.user = { ...this.user };
+        return;
+      }
+    }
+    throw new Error(`Unknown user code: ${userCode}`);
+  }
+
+  /**
+   * Replaces the id_token signing key; only the new key is served at `jwks_uri` from now on.
+   */
+  rotateSigningKey(): void {
+    this.signingKey = undefined;
+    this.keyId = randomToken();
+  }
+
+  /** Generated on first use, most tests never need it */
+  private get idTokenKey(): crypto.KeyPairKeyObjectResult {
+    if (!this.signingKey) {
+      this.signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    }
+    return this.signingKey;
+  }
+
+  private takeError(endpoint: MockEndpoint, grantType?: string): MockErrorInjection | undefined {
+    const queue = this.errors.get(endpoint);
+    const index = queue?.findIndex((injection) => !injection.grantType || injection.grantType === grantType) ?? -1;
+    if (!queue || index === -1) {
+      return undefined;
+    }
+    const injection = queue[index];
+    injection.times = (injection.times ?? 1) - 1;
+    if (injection.times <= 0) {
+      queue.splice(index, 1);
+    }
+    return injection;
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: ServerResponse, status: number, error: string, description?: string, headers?: Record<string, string>): void {
+    this.sendJson(res, status, description ? { error, error_description: description } : { error }, headers);
+  }
+
+  private sendInjected(res: ServerResponse, injection: MockErrorInjection): void {
+    const headers = injection.retryAfter !== undefined ? { 'Retry-After': String(injection.retryAfter) } : undefined;
+    this.sendError(res, injection.status ?? 400, injection.error, injection.errorDescription, headers);
+  }
+
+  private async readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.url);
+    const raw = await this.readBody(req);
+    const body: Record<string, string> = req.headers['content-type']?.includes('application/json')
+      ? JSON.parse(raw || '{}')
+      : Object.fromEntries(new URLSearchParams(raw));
+    const request: MockRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      body,
+      headers: req.headers
+    };
+    this.requests.push(request);
+
+    const path = url.pathname;
+    if (path === '/mcp') {
+      return this.handleMcp(req, res);
+    }
+    if (path.startsWith('/.well-known/')) {
+      return this.handleDiscovery(path, req, res);
+    }
+    if (path === '/register' && req.method === 'POST') {
+      return this.handleRegister(body, res);
+    }
+    if (path.startsWith('/register/') && req.method === 'DELETE') {
+      return this.handleDeleteClient(path.slice('/register/'.length), req, res);
+    }
+    if (path === '/authorize') {
+      return this.handleAuthorize(url.searchParams, res);
+    }
+    if (path === '/token' && req.method === 'POST') {
+      return this.handleToken(req, body, res);
+    }
+    if (path === '/device' && req.method === 'POST' && this.options.deviceFlow) {
+      return this.handleDeviceAuthorization(req, body, res);
+    }
+    if (path === '/revoke' && req.method === 'POST') {
+      return this.handleRevoke(req, body, res);
+    }
+    if (path === '/jwks') {
+      return this.sendJson(res, 200, {
+        keys: [{ ...this.idTokenKey.publicKey.export({ format: 'jwk' }), kid: this.keyId, use: 'sig', alg: 'RS256' }]
+      });
+    }
+    if (path === '/userinfo') {
+      return this.handleUserInfo(req, res);
+    }
+    res.writeHead(404);
+    res.end();
+  }
+
+  private bearerToken(req: IncomingMessage): IssuedToken | undefined {
+    const match = req.headers.authorization?.match(/^(?:Bearer|DPoP)\s+(.+)$/i);
+    return match && this.isAccessTokenValid(match[1]) ? this.accessTokens.get(match[1]) : undefined;
+  }
+
+  private handleMcp(req: IncomingMessage, res: ServerResponse): void {
+    const injection = this.takeError('mcp');
+    const resourceMetadata = `${this.url}/.well-known/oauth-protected-resource/mcp`;
+    if (injection) {
+      res.writeHead(injection.status ?? 403, {
+        'WWW-Authenticate': `Bearer error="${injection.error}", resource_metadata="${resourceMetadata}"`
+      });
+      res.end();
+      return;
+    }
+
+    const match = req.headers.authorization?.match(/^(Bearer|DPoP)\s+(.+)$/i);
+    if (!match || !this.isAccessTokenValid(match[2])) {
+      res.writeHead(401, {
+        'WWW-Authenticate': match
+          ? `Bearer error="invalid_token", resource_metadata="${resourceMetadata}"`
+          : `Bearer resource_metadata="${resourceMetadata}"`
+      });
+      res.end();
+      return;
+    }
+
+    const { jkt } = this.accessTokens.get(match[2])!;
+    if (jkt) {
+      // RFC 9449 §7.1: a bound token needs the DPoP scheme and a proof from its key
+      const proof = match[1].toLowerCase() === 'dpop' ? this.verifyDPoPProof(req, match[2]) : {};
+      const error = proof.error || (proof.jkt === jkt ? undefined : 'invalid_token');
+      if (error) {
+        res.writeHead(401, {
+          'WWW-Authenticate': `DPoP error="${error}", resource_metadata="${resourceMetadata}"`,
+          ...(error === 'use_dpop_nonce' ? { 'DPoP-Nonce': this.options.dpopNonce } : {})
+        });
+        res.end();
+        return;
+      }
+    }
+    this.sendJson(res, 200, { ok: true });
+  }
+
+  /**
+   * Sends a metadata document with an ETag and max-age, answering conditional requests with 304.
+   */
+  private sendMetadata(req: IncomingMessage, res: ServerResponse, document: Record<string, unknown>): void {
+    const body = JSON.stringify(document);
+    const etag = `"${crypto.createHash('sha256').update(body).digest('base64url')}"`;
+    const headers = {
+      'Content-Type': 'application/json',
+      'Cache-Control': `max-age=${this.options.metadataMaxAge ?? 3600}`,
+      ETag: etag
+    };
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304, headers);
+      res.end();
+      return;
+    }
+    res.writeHead(200, headers);
+    res.end(body);
+  }
+
+  private handleDiscovery(path: string, req: IncomingMessage, res: ServerResponse): void {
+    const injection = this.takeError('discovery');
+    if (injection) {
+      return this.sendInjected(res, { status: 500, ...injection });
+    }
+
+    if (path === '/.well-known/oauth-protected-resource/mcp' || path === '/.well-known/oauth-protected-resource') {
+      return this.sendMetadata(req, res, {
+        resource: this.mcpUrl,
+        authorization_servers: [this.url],
+        scopes_supported: this.options.scopes,
+        bearer_methods_supported: ['header']
+      });
+    }
+    if (path === '/.well-known/oauth-authorization-server' || path === '/.well-known/openid-configuration') {
+      const grantTypes = ['authorization_code', 'refresh_token', 'client_credentials'];
+      if (this.options.deviceFlow) {
+        grantTypes.push('urn:ietf:params:oauth:grant-type:device_code');
+      }
+      return this.sendMetadata(req, res, {
+        issuer: this.url,
+        authorization_endpoint: `${this.url}/authorize`,
+        token_endpoint: `${this.url}/token`,
+        registration_endpoint: `${this.url}/register`,
+        revocation_endpoint: `${this.url}/revoke`,
+        jwks_uri: `${this.url}/jwks`,
+        userinfo_endpoint: `${this.url}/userinfo`,
+        ...(this.options.deviceFlow ? { device_authorization_endpoint: `${this.url}/device` } : {}),
+        scopes_supported: this.options.scopes,
+        response_types_supported: ['code'],
+        grant_types_supported: grantTypes,
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'private_key_jwt', 'none'],
+        authorization_response_iss_parameter_supported: true,
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        dpop_signing_alg_values_supported: ['ES256'],
+        ...this.options.metadata
+      });
+    }
+    res.writeHead(404);
+    res.end();
+  }
+
+  /**
+   * Registers a client directly, as an administrator would for clients that do not use dynamic
+   * registration, e.g. the `staticOAuthClientInfo` of a machine-to-machine client.
+   */
+  registerClient(metadata: Record<string, any> = {}): MockClient {
+    const authMethod = metadata.token_endpoint_auth_method || 'client_secret_basic';
+    const client: MockClient = {
+      ...metadata,
+      client_id: `client-${randomToken()}`,
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      redirect_uris: metadata.redirect_uris || [],
+      grant_types: metadata.grant_types || ['authorization_code', 'refresh_token'],
+      token_endpoint_auth_method: authMethod,
+      registration_access_token: randomToken()
+    };
+    if (authMethod !== 'none' && authMethod !== 'private_key_jwt') {
+      client.client_secret = randomToken();
+    }
+    client.registration_client_uri = `${this.url}/register/${client.client_id}`;
+    this.clients.set(client.client_id, client);
+    return client;
+  }
+
+  private handleRegister(metadata: Record<string, any>, res: ServerResponse): void {
+    const injection = this.takeError('register');
+    if (injection) {
+      return this.sendInjected(res, injection);
+    }
+    this.sendJson(res, 201, this.registerClient(metadata));
+  }
+
+  private handleDeleteClient(clientId: string, req: IncomingMessage, res: ServerResponse): void {
+    const client = this.clients.get(clientId);
+    if (!client || req.headers.authorization !== `Bearer ${client.registration_access_token}`) {
+      return this.sendError(res, 401, 'invalid_token');
+    }
+    this.clients.delete(clientId);
+    res.writeHead(204);
+    res.end();
+  }
+
+  private handleAuthorize(params: URLSearchParams, res: ServerResponse): void {
+    const client = this.clients.get(params.get('client_id') || '');
+    const redirectUri = params.get('redirect_uri') || '';
+    if (!client || !client.redirect_uris.includes(redirectUri)) {
+      // Never redirect to an unverified URI
+      return this.sendError(res, 400, 'invalid_request', 'Unknown client or redirect_uri');
+    }
+
+    const redirect = new URL(redirectUri);
+    const state = params.get('state');
+    if (state) {
+      redirect.searchParams.set('state', state);
+    }
+    redirect.searchParams.set('iss', this.url);
+
+    const injection = this.takeError('authorize');
+    if (injection) {
+      redirect.searchParams.set('error', injection.error);
+      if (injection.errorDescription) {
+        redirect.searchParams.set('error_description', injection.errorDescription);
+      }
+    } else if (params.get('response_type') !== 'code') {
+      redirect.searchParams.set('error', 'unsupported_response_type');
+    } else if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+      redirect.searchParams.set('error', 'invalid_request');
+      redirect.searchParams.set('error_description', 'PKCE with S256 is required');
+    } else {
+      const code = randomToken();
+      this.codes.set(code, {
+        clientId: client.client_id,
+        redirectUri,
+        codeChallenge: params.get('code_challenge')!,
+        scope: params.get('scope') || undefined,
+        resource: params.get('resource') || undefined,
+        nonce: params.get('nonce') || undefined,
+        dpopJkt: params.get('dpop_jkt') || undefined,
+        user: { ...this.user }
+      });
+      redirect.searchParams.set('code', code);
+    }
+
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+  }
+
+  /**
+   * Authenticates the client of a token or revocation request with any of the supported methods.
+   */
+  private authenticateClient(req: IncomingMessage, body: Record<string, string>): MockClient | undefined {
+    if (body.client_assertion_type) {
+      return this.verifyClientAssertion(body);
+    }
+
+    let clientId = body.client_id;
+    let clientSecret = body.client_secret;
+    const basic = req.headers.authorization?.match(/^Basic\s+(.+)$/i);
+    if (basic) {
+      const [id, secret] = Buffer.from(basic[1], 'base64').toString('utf-8').split(':');
+      clientId = decodeURIComponent(id.replace(/\+/g, ' '));
+      clientSecret = decodeURIComponent((secret || '').replace(/\+/g, ' '));
+    }
+
+    const client = this.clients.get(clientId || '');
+    if (!client) {
+      return undefined;
+    }
+    if (client.client_secret && client.client_secret !== clientSecret) {
+      return undefined;
+    }
+    if (client.token_endpoint_auth_method === 'private_key_jwt') {
+      return undefined;
+    }
+    return client;
+  }
+
+  /**
+   * RFC 7523 §3: the assertion must be issued by the client for this server, unexpired, unused,
+   * and signed with a key from the client's registered `jwks`.
+   */
+  private verifyClientAssertion(body: Record<string, string>): MockClient | undefined {
+    if (body.client_assertion_type !== CLIENT_ASSERTION_TYPE) {
+      return undefined;
+    }
+    let jwt: DecodedJwt;
+    try {
+      jwt = decodeJwt(body.client_assertion || '');
+    } catch {
+      return undefined;
+    }
+
+    const { iss, sub, aud, exp, jti } = jwt.payload;
+    const client = this.clients.get(String(sub));
+    if (!client || iss !== sub || (body.client_id && body.client_id !== sub)) {
+      return undefined;
+    }
+    const audiences = Array.isArray(aud) ? aud : [aud];
+    if (!audiences.includes(`${this.url}/token`) && !audiences.includes(this.url)) {
+      return undefined;
+    }
+    if (typeof exp !== 'number' || exp * 1000 <= Date.now() || typeof jti !== 'string' || this.assertionIds.has(jti)) {
+      return undefined;
+    }
+
+    const keys = (client.jwks as { keys?: crypto.JsonWebKey[] } | undefined)?.keys || [];
+    const verified = keys
+      .filter((key) => !jwt.header.kid || key.kid === jwt.header.kid)
+      .some((key) => {
+        try {
+          return verifyJwt(jwt, crypto.createPublicKey({ key, format: 'jwk' }));
+        } catch {
+          return false;
+        }
+      });
+    if (!verified) {
+      return undefined;
+    }
+    this.assertionIds.add(jti);
+    return client;
+  }
+
+  /**
+   * RFC 9449 §4.3: the `DPoP` header must be a fresh, unused proof for this request, signed with
+   * the key in its `jwk` header, and bound to `accessToken` when one is presented.
+   */
+  private verifyDPoPProof(req: IncomingMessage, accessToken?: string): DPoPCheck {
+    const header = req.headers.dpop;
+    if (header === undefined) {
+      return {};
+    }
+    let jwt: DecodedJwt;
+    let key: crypto.KeyObject;
+    try {
+      jwt = decodeJwt(String(header));
+      key = crypto.createPublicKey({ key: jwt.header.jwk as crypto.JsonWebKey, format: 'jwk' });
+    } catch {
+      return { error: 'invalid_dpop_proof' };
+    }
+
+    const { htm, htu, iat, jti, ath, nonce } = jwt.payload;
+    const url = new URL(req.url || '/', this.url);
+    url.search = '';
+    const valid = jwt.header.typ === 'dpop+jwt'
+      && verifyJwt(jwt, key)
+      && htm === req.method
+      && htu === url.toString()
+      && typeof iat === 'number' && Math.abs(iat * 1000 - Date.now()) < 60_000
+      && typeof jti === 'string' && !this.dpopProofIds.has(jti)
+      && (!accessToken || ath === crypto.createHash('sha256').update(accessToken).digest('base64url'));
+    if (!valid) {
+      return { error: 'invalid_dpop_proof' };
+    }
+    if (this.options.dpopNonce && nonce !== this.options.dpopNonce) {
+      return { error: 'use_dpop_nonce' };
+    }
+    this.dpopProofIds.add(jti);
+
+    // RFC 7638: required members in lexicographic order
+    const { crv, kty, x, y } = key.export({ format: 'jwk' });
+    return { jkt: crypto.createHash('sha256').update(JSON.stringify({ crv, kty, x, y })).digest('base64url') };
+  }
+
+  private issueTokens(
+    res: ServerResponse,
+    grant: { clientId: string; scope?: string; resource?: string; user?: MockUser; nonce?: string; jkt?: string },
+    refresh = true
+  ): void {
+    const ttl = this.options.accessTokenTtl ?? 3600;
+    const scope = grant.scope || this.options.scopes?.join(' ');
+    const { nonce, ...tokenGrant } = grant;
+    const accessToken = randomToken();
+    this.accessTokens.set(accessToken, { ...tokenGrant, scope, expiresAt: Date.now() + ttl * 1000 });
+
+    const response: Record<string, unknown> = {
+      access_token: accessToken,
+      token_type: grant.jkt ? 'DPoP' : 'Bearer',
+      expires_in: ttl,
+      scope
+    };
+    if (refresh) {
+      const refreshToken = randomToken();
+      this.refreshTokens.set(refreshToken, { ...tokenGrant, scope, expiresAt: Infinity });
+      response.refresh_token = refreshToken;
+    }
+    if (grant.user && scope?.split(' ').includes('openid')) {
+      response.id_token = this.createIdToken(grant.clientId, grant.user, accessToken, nonce);
+    }
+    this.sendJson(res, 200, response);
+  }
+
+  private createIdToken(clientId: string, user: MockUser, accessToken: string, nonce?: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    const digest = crypto.createHash('sha256').update(accessToken).digest();
+    const claims: Record<string, unknown> = {
+      ...user,
+      iss: this.url,
+      aud: clientId,
+      iat: now,
+      exp: now + 3600,
+      at_hash: digest.subarray(0, 16).toString('base64url'),
+      ...(nonce ? { nonce } : {}),
+      ...this.options.idTokenClaims
+    };
+    for (const [claim, value] of Object.entries(claims)) {
+      if (value === undefined) {
+        delete claims[claim];
+      }
+    }
+    return signJwt({ typ: 'JWT', alg: 'RS256', kid: this.keyId }, claims, this.idTokenKey.privateKey);
+  }
+
+  private handleToken(req: IncomingMessage, body: Record<string, string>, res: ServerResponse): void {
+    const injection = this.takeError('token', body.grant_type);
+    if (injection) {
+      return this.sendInjected(res, injection);
+    }
+
+    const client = this.authenticateClient(req, body);
+    if (!client) {
+      return this.sendError(res, 401, 'invalid_client');
+    }
+    const { jkt, error } = this.verifyDPoPProof(req);
+    if (error) {
+      const headers = error === 'use_dpop_nonce' ? { 'DPoP-Nonce': this.options.dpopNonce! } : undefined;
+      return this.sendError(res, 400, error, undefined, headers);
+    }
+
+    switch (body.grant_type) {
+      case 'authorization_code': {
+        const code = this.codes.get(body.code);
+        this.codes.delete(body.code);
+        if (!code || code.clientId !== client.client_id || code.redirectUri !== body.redirect_uri) {
+          return this.sendError(res, 400, 'invalid_grant');
+        }
+        const challenge = crypto.createHash('sha256').update(body.code_verifier || '').digest('base64url');
+        if (challenge !== code.codeChallenge) {
+          return this.sendError(res, 400, 'invalid_grant', 'PKCE verification failed');
+        }
+        if (code.dpopJkt && code.dpopJkt !== jkt) {
+          return this.sendError(res, 400, 'invalid_grant', 'DPoP key does not match dpop_jkt');
+        }
+        return this.issueTokens(res, { ...code, jkt });
+      }
+      case 'refresh_token': {
+        const grant = this.refreshTokens.get(body.refresh_token);
+        if (!grant || grant.clientId !== client.client_id) {
+          return this.sendError(res, 400, 'invalid_grant');
+        }
+        if (grant.jkt && grant.jkt !== jkt) {
+          return this.sendError(res, 400, 'invalid_grant', 'Refresh token is bound to another DPoP key');
+        }
+        const rotate = this.options.rotateRefreshTokens !== false;
+        if (rotate) {
+          this.refreshTokens.delete(body.refresh_token);
+        }
+        return this.issueTokens(res, { ...grant, jkt }, rotate);
+      }
+      case 'client_credentials':
+        if (client.token_endpoint_auth_method === 'none') {
+          return this.sendError(res, 400, 'unauthorized_client');
+        }
+        return this.issueTokens(res, { clientId: client.client_id, scope: body.scope, resource: body.resource, jkt }, false);
+      case 'urn:ietf:params:oauth:grant-type:device_code': {
+        const device = this.deviceCodes.get(body.device_code);
+        if (!device || device.clientId !== client.client_id) {
+          return this.sendError(res, 400, 'expired_token');
+        }
+        if (!device.user) {
+          return this.sendError(res, 400, 'authorization_pending');
+        }
+        this.deviceCodes.delete(body.device_code);
+        return this.issueTokens(res, { clientId: device.clientId, scope: device.scope, user: device.user, jkt });
+      }
+      default:
+        return this.sendError(res, 400, 'unsupported_grant_type');
+    }
+  }
+
+  private handleDeviceAuthorization(req: IncomingMessage, body: Record<string, string>, res: ServerResponse): void {
+    const client = this.authenticateClient(req, body);
+    if (!client) {
+      return this.sendError(res, 401, 'invalid_client');
+    }
+
+    const deviceCode = randomToken();
+    const userCode = crypto.randomBytes(4).toString('hex').toUpperCase();
+    this.deviceCodes.set(deviceCode, { clientId: client.client_id, userCode, scope: body.scope });
+    this.sendJson(res, 200, {
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: `${this.url}/device/verify`,
+      verification_uri_complete: `${this.url}/device/verify?user_code=${userCode}`,
+      expires_in: 600,
+      interval: 1
+    });
+  }
+
+  private handleUserInfo(req: IncomingMessage, res: ServerResponse): void {
+    const injection = this.takeError('userinfo');
+    if (injection) {
+      return this.sendInjected(res, injection);
+    }
+    const token = this.bearerToken(req);
+    if (!token?.user || !token.scope?.split(' ').includes('openid')) {
+      return this.sendError(res, 401, 'invalid_token', undefined, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+    this.sendJson(res, 200, token.user);
+  }
+
+  private handleRevoke(req: IncomingMessage, body: Record<string, string>, res: ServerResponse): void {
+    const injection = this.takeError('revoke');
+    if (injection) {
+      return this.sendInjected(res, injection);
+    }
+    if (!this.authenticateClient(req, body)) {
+      return this.sendError(res, 401, 'invalid_client');
+    }
+
+    // RFC 7009 §2.2: unknown tokens are not an error
+    this.accessTokens.delete(body.token);
+    this.refreshTokens.delete(body.token);
+    res.writeHead(200);
+    res.end();
+  }
+}
+
+/**
+ * Headless stand-in for the system browser. Pass `open` as the provider's `onAuthorizationUrl`:
+ * it requests the authorization URL and follows redirects, landing on the provider's callback
+ * server like a browser would. Redirects to non-HTTP URIs (custom schemes) are recorded in
+ * `visited` but not followed; hand them to `completeAuthorization()`.
+ */
+export class BrowserStub {
+  /** Every URL the stub navigated to, in order */
+  readonly visited: string[] = [];
+  /** Status and body of the last page loaded */
+  lastResponse?: { url: string; status: number; body: string };
+
+  constructor(private readonly maxRedirects = 10) {}
+
+  open = async (url: URL | string): Promise<void> => {
+    let current = url.toString();
+    for (let i = 0; i <= this.maxRedirects; i++) {
+      this.visited.push(current);
+      if (!/^https?:/i.test(current)) {
+        return;
+      }
+
+      const response = await axios.get<string>(current, {
+        maxRedirects: 0,
+        validateStatus: () => true,
+        responseType: 'text',
+        transformResponse: (data) => data
+      });
+      const location = response.headers.location;
+      if (response.status >= 300 && response.status < 400 && location) {
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      this.lastResponse = { url: current, status: response.status, body: response.data };
+      return;
+    }
+    throw new Error(`Too many redirects opening ${url}`);
+  };
+
+  /** The last URL navigated to, e.g. the callback URL a custom scheme redirect ended at */
+  get lastUrl(): string | undefined {
+    return this.visited[this.visited.length - 1];
+  }
+}
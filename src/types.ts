@@ -1,16 +1,28 @@
 import { EventEmitter } from 'events';
+import { JsonWebKey, KeyObject } from 'crypto';
+import type { SharedOAuthCallbackServer } from './oauth-server';
+import type { OAuthError } from './errors';
+import type { HttpOptions } from './http';
+import type { Identity } from './oidc';
 import { 
   OAuthClientInformationFull, 
   OAuthClientMetadata,
-  OAuthTokens
+  OAuthTokens,
+  AuthorizationServerMetadata,
+  OAuthProtectedResourceMetadata
 } from '@modelcontextprotocol/sdk/shared/auth.js';
 
 export interface OAuthProviderOptions {
   serverUrl: string;
-  callbackPort: number;
+  callbackPort?: number;
+  callbackPortRange?: [number, number];
   host: string;
   callbackPath?: string;
+  callbackPages?: CallbackPageOptions;
   configDir?: string;
+  storage?: TokenStorage;
+  encryptionKey?: string;
+  encryptionKeyFile?: string;
   clientName?: string;
   clientUri?: string;
   softwareId?: string;
@@ -18,21 +30,263 @@ export interface OAuthProviderOptions {
   staticOAuthClientMetadata?: OAuthClientMetadata | null | undefined;
   staticOAuthClientInfo?: OAuthClientInformationFull | null | undefined;
   authorizeResource?: string;
+  resourceMetadataUrl?: string;
+  scopes?: string[];
+  clientAssertionKey?: ClientAssertionKey;
+  tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+  /** Request DPoP-bound tokens (RFC 9449) using a key pair kept per server */
+  dpop?: boolean;
+  /** Sign in with OpenID Connect: request `openid` and validate the id_token returned with the tokens */
+  oidc?: boolean;
+  /** Account to use for this server; every profile has its own credentials (default: `default`) */
+  profile?: string;
+  /** Sent as `login_hint`, e.g. the email of the account to sign in with */
+  loginHint?: string;
+  /** Timeouts, retries, proxy and CA settings, or a custom axios instance or fetch, for authorization server requests */
+  http?: HttpOptions;
+}
+
+/**
+ * How the client authenticates to the token endpoint (RFC 7591 §2).
+ */
+export type TokenEndpointAuthMethod = 'client_secret_post' | 'client_secret_basic' | 'private_key_jwt' | 'none';
+
+/**
+ * Responses of the callback server once the browser returns. Each outcome is either rendered with
+ * a template function or redirected to an application URL; without either, a built-in page is shown.
+ */
+export interface CallbackPageOptions {
+  /** HTML shown after a successful authorization */
+  successPage?: () => string;
+  /** HTML shown after a failed authorization; reflected values must be escaped, see `escapeHtml` */
+  errorPage?: (error: CallbackErrorInfo) => string;
+  /** URL to redirect the browser to after a successful authorization, instead of a page */
+  successRedirect?: string;
+  /** URL to redirect the browser to after a failed authorization; `error` and `error_description` are appended */
+  errorRedirect?: string;
+}
+
+export interface CallbackErrorInfo {
+  error: string;
+  errorDescription?: string;
+}
+
+/**
+ * Signing key for `private_key_jwt` client authentication (RFC 7523).
+ */
+export interface ClientAssertionKey {
+  /** PEM-encoded private key or a KeyObject */
+  privateKey: string | KeyObject;
+  /** JWS algorithm, defaults from the key type (RS256, ES256, ...) */
+  algorithm?: string;
+  /** `kid` header matching the key registered with the authorization server */
+  keyId?: string;
 }
 
 export interface OAuthClientProviderOptions extends OAuthProviderOptions {
   autoAuthenticate?: boolean;
   transportStrategy?: 'sse-only' | 'http-only' | 'sse-first' | 'http-first';
+  refreshSkewSeconds?: number;
+  backgroundRefresh?: boolean;
+  authFlow?: 'auto' | 'browser' | 'device';
+  grantType?: 'authorization_code' | 'client_credentials';
+  callbackServer?: SharedOAuthCallbackServer;
+  authorizationQueue?: <T>(task: () => Promise<T>) => Promise<T>;
+  logger?: OAuthLogger;
+  onDeviceCode?: (info: DeviceAuthorizationInfo) => void | Promise<void>;
+  /** Called with the authorization URL instead of opening the system browser */
+  onAuthorizationUrl?: (url: URL) => void | Promise<void>;
+  /**
+   * Fixed redirect URI, e.g. a custom URI scheme. No local callback server is started; the
+   * redirect must be handed to `completeAuthorization()`.
+   */
+  redirectUri?: string;
+  /**
+   * How long a browser authorization may take, and how long its persisted session can still be
+   * completed with `completeAuthorization()` (default: 5 minutes)
+   */
+  authorizationTimeoutMs?: number;
+}
+
+export interface LogoutOptions {
+  /** Clear local credentials even when revocation or client deletion fails */
+  force?: boolean;
+  /** Also delete the dynamically registered client (RFC 7592) */
+  deleteClient?: boolean;
+}
+
+export interface DeviceAuthorizationInfo {
+  userCode: string;
+  verificationUri: string;
+  verificationUriComplete?: string;
+  expiresIn: number;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface OAuthLogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+export interface TokenEventInfo {
+  /** Access token expiry in seconds since the epoch, if known */
+  expiresAt?: number;
+  scope?: string;
+  hasRefreshToken: boolean;
+}
+
+/**
+ * Lifecycle events emitted by OAuthClientProvider. Payloads never contain tokens or secrets.
+ */
+export interface OAuthProviderEvents {
+  'discovery': (info: {
+    authorizationServerUrl: string;
+    metadata: AuthorizationServerMetadata;
+    resourceMetadata?: OAuthProtectedResourceMetadata;
+  }) => void;
+  'registered': (info: { clientId: string; redirectUris: string[] }) => void;
+  'authorization-url': (info: { url: string }) => void;
+  'device-code': (info: DeviceAuthorizationInfo) => void;
+  'callback-received': (info: { error?: string; errorDescription?: string }) => void;
+  'tokens-saved': (info: TokenEventInfo) => void;
+  'tokens-refreshed': (info: TokenEventInfo) => void;
+  'refresh-failed': (info: { error: OAuthError }) => void;
+  'credentials-invalidated': (info: { scope: CredentialScope }) => void;
+  /** A sign-in returned an id_token for a different user than the previous one (`oidc` only) */
+  'account-changed': (info: { previous: Identity; current: Identity }) => void;
+}
+
+export interface AuthStatus {
+  serverUrl: string;
+  authenticated: boolean;
+  authenticating: boolean;
+  /** Access token expiry in seconds since the epoch, if known */
+  expiresAt?: number;
+  scope?: string;
+  canRefresh: boolean;
+  /** A browser authorization, possibly started by a previous process, awaits `completeAuthorization()` */
+  authorizationPending: boolean;
+}
+
+export interface ProfileInfo {
+  profile: string;
+  /** Email or username of the last sign-in, when known */
+  account?: string;
+  authenticated: boolean;
+  /** Whether this is the provider's current profile */
+  active: boolean;
 }
 
 export interface AuthState {
   skipBrowserAuth: boolean;
+  /** OAuth `state` the callback must carry; always set when authorization is needed */
+  state?: string;
   waitForAuthCode: () => Promise<string>;
   server?: any;
 }
 
+/**
+ * Parts of the stored state `invalidateCredentials()` can clear.
+ */
+export type CredentialScope = 'all' | 'client' | 'tokens' | 'verifier' | 'discovery';
+
+/**
+ * What a stored server hash belongs to, kept next to its credentials so stores can be inspected.
+ */
+export interface StoredServerMetadata {
+  serverUrl: string;
+  /** Undefined for the default profile */
+  profile?: string;
+  /** Email or username of the last sign-in, used as `login_hint` when signing in again */
+  account?: string;
+  authorizationServerUrl?: string;
+  issuer?: string;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * A metadata document kept with its HTTP cache validators.
+ */
+export interface CachedDocument<T> {
+  url: string;
+  data: T;
+  etag?: string;
+  lastModified?: string;
+  /** Fresh until this time, per Cache-Control / Expires; milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Discovery results stored per server, so a new process can skip discovery while they are fresh.
+ */
+export interface CachedDiscovery {
+  resourceMetadata?: CachedDocument<OAuthProtectedResourceMetadata>;
+  authorizationServerUrl: string;
+  authorizationServerMetadata: CachedDocument<AuthorizationServerMetadata>;
+}
+
+/**
+ * A browser authorization in progress, persisted so `completeAuthorization()` can finish it after
+ * the application restarted. Removed once the code is exchanged, or when it expires.
+ */
+export interface AuthorizationSession {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  clientId: string;
+  resource?: string;
+  scopes?: string[];
+  /** OpenID Connect nonce, see the `oidc` option */
+  nonce?: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface StoredOAuthTokens extends OAuthTokens {
+  /** Absolute expiry time in seconds since the epoch, derived from `expires_in` when saved */
+  expires_at?: number;
+}
+
+/**
+ * Credential store for everything the provider persists per server: tokens, registered
+ * client information and the PKCE code verifier or authorization session. Getters return null when nothing is stored
+ * and deletes must not fail when nothing is stored.
+ */
 export interface TokenStorage {
-  getTokens(serverUrlHash: string): Promise<OAuthTokens | null>;
-  saveTokens(serverUrlHash: string, tokens: OAuthTokens): Promise<void>;
+  getTokens(serverUrlHash: string): Promise<StoredOAuthTokens | null>;
+  saveTokens(serverUrlHash: string, tokens: StoredOAuthTokens): Promise<void>;
   deleteTokens(serverUrlHash: string): Promise<void>;
+  getClientInfo(serverUrlHash: string): Promise<OAuthClientInformationFull | null>;
+  saveClientInfo(serverUrlHash: string, clientInfo: OAuthClientInformationFull): Promise<void>;
+  deleteClientInfo(serverUrlHash: string): Promise<void>;
+  getCodeVerifier(serverUrlHash: string): Promise<string | null>;
+  saveCodeVerifier(serverUrlHash: string, verifier: string): Promise<void>;
+  deleteCodeVerifier(serverUrlHash: string): Promise<void>;
+  /**
+   * Runs `task` while holding an exclusive lock for the server, shared by every process using
+   * this store. Optional; stores without it are only coordinated within one provider instance.
+   */
+  withLock?<T>(serverUrlHash: string, task: () => Promise<T>): Promise<T>;
+  /** Optional; without these, DPoP keys only live as long as the provider */
+  getDPoPKey?(serverUrlHash: string): Promise<JsonWebKey | null>;
+  saveDPoPKey?(serverUrlHash: string, key: JsonWebKey): Promise<void>;
+  deleteDPoPKey?(serverUrlHash: string): Promise<void>;
+  /** Optional; without them discovery runs once per process */
+  getDiscovery?(serverUrlHash: string): Promise<CachedDiscovery | null>;
+  saveDiscovery?(serverUrlHash: string, discovery: CachedDiscovery): Promise<void>;
+  deleteDiscovery?(serverUrlHash: string): Promise<void>;
+  /** Optional; without them an authorization cannot be completed after a restart */
+  getAuthorizationSession?(serverUrlHash: string): Promise<AuthorizationSession | null>;
+  saveAuthorizationSession?(serverUrlHash: string, session: AuthorizationSession): Promise<void>;
+  deleteAuthorizationSession?(serverUrlHash: string): Promise<void>;
+  /** Optional; used by the `mcp-oauth` CLI to list and manage stored servers */
+  getServerMetadata?(serverUrlHash: string): Promise<StoredServerMetadata | null>;
+  saveServerMetadata?(serverUrlHash: string, metadata: StoredServerMetadata): Promise<void>;
+  listServers?(): Promise<string[]>;
+  deleteServer?(serverUrlHash: string): Promise<void>;
 }
\ No newline at end of file
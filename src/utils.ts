@@ -1,30 +1,208 @@
-import crypto from 'crypto';
+import crypto, { JsonWebKey } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import { OAuthTokens, OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
-import { TokenStorage } from './types';
+import { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
+import {
+  TokenStorage,
+  StoredOAuthTokens,
+  StoredServerMetadata,
+  CachedDiscovery,
+  AuthorizationSession,
+  OAuthLogger,
+  LogLevel
+} from './types';
+import {
+  EncryptionKeyOptions,
+  resolveEncryptionSecret,
+  deriveEncryptionKey,
+  generateEncryptionSalt,
+  parseEncryptedEnvelope,
+  encrypt,
+  decrypt
+} from './encryption';
+import { acquireFileLock, FileLockOptions } from './lock';
 
 export const DEBUG = process.env.NODE_DEBUG === 'mcp-oauth' || process.env.DEBUG === 'mcp-oauth';
 
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const SENSITIVE_KEYS = new Set([
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'client_secret',
+  'code',
+  'code_verifier',
+  'device_code',
+  'client_assertion',
+  'assertion',
+  'password',
+  'authorization'
+]);
+const SENSITIVE_PARAM_PATTERN =
+  /\b(access_token|refresh_token|id_token|client_secret|code|code_verifier|device_code|client_assertion)=[^&\s"']+/g;
+const SENSITIVE_JSON_PATTERN =
+  /"(access_token|refresh_token|id_token|client_secret|code_verifier|device_code|client_assertion)"\s*:\s*"[^"]*"/g;
+// Credentials only; challenges such as `Bearer error="..."` are left alone
+const AUTHORIZATION_HEADER_PATTERN = /\b(Bearer|DPoP|Basic)\s+(?![a-z_]+=)[A-Za-z0-9\-._~+/]+=*/g;
+
+/**
+ * Replaces tokens, secrets and authorization codes with `[REDACTED]`: sensitive keys in objects,
+ * `key=value` pairs in URLs and form bodies, JSON fragments and Authorization header values.
+ * Errors are reduced to their name and message so request configs are never logged.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value
+      .replace(SENSITIVE_PARAM_PATTERN, '$1=[REDACTED]')
+      .replace(SENSITIVE_JSON_PATTERN, '"$1":"[REDACTED]"')
+      .replace(AUTHORIZATION_HEADER_PATTERN, '$1 [REDACTED]');
+  }
+  if (value instanceof Error) {
+    return redact(`${value.name}: ${value.message}`);
+  }
+  if (value instanceof URL) {
+    return redact(value.toString());
+  }
+  if (value && typeof value === 'object') {
+    if (depth >= 5) {
+      return '[Object]';
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, depth + 1));
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? '[REDACTED]' : redact(item, depth + 1);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Logger writing to the console, in the format used before loggers were pluggable. Defaults to
+ * the `debug` level when NODE_DEBUG or DEBUG is `mcp-oauth`, otherwise `info`.
+ */
+export function createConsoleLogger(level: LogLevel = DEBUG ? 'debug' : 'info'): OAuthLogger {
+  const enabled = (messageLevel: LogLevel) => LOG_LEVELS.indexOf(messageLevel) >= LOG_LEVELS.indexOf(level);
+  return {
+    debug: (message, ...args) => {
+      if (enabled('debug')) console.log('[OAuth Debug]', message, ...args);
+    },
+    info: (message, ...args) => {
+      if (enabled('info')) console.log('[OAuth]', message, ...args);
+    },
+    warn: (message, ...args) => {
+      if (enabled('warn')) console.warn('[OAuth]', message, ...args);
+    },
+    error: (message, ...args) => {
+      if (enabled('error')) console.error('[OAuth]', message, ...args);
+    }
+  };
+}
+
+/**
+ * Wraps a logger so every message and argument passes through `redact()` first.
+ */
+export function createRedactingLogger(logger: OAuthLogger): OAuthLogger {
+  const wrap = (level: LogLevel) => (message: string, ...args: unknown[]) => {
+    logger[level](redact(message) as string, ...args.map((arg) => redact(arg)));
+  };
+  return {
+    debug: wrap('debug'),
+    info: wrap('info'),
+    warn: wrap('warn'),
+    error: wrap('error')
+  };
+}
+
+let defaultLogger: OAuthLogger = createRedactingLogger(createConsoleLogger());
+
+/**
+ * Replaces the logger used by providers without a `logger` option and by module-level helpers.
+ */
+export function setDefaultLogger(logger: OAuthLogger): void {
+  defaultLogger = createRedactingLogger(logger);
+}
+
+export function getDefaultLogger(): OAuthLogger {
+  return defaultLogger;
+}
+
 export function log(...args: any[]): void {
-  console.log('[OAuth]', ...args);
+  const [message, ...rest] = args;
+  defaultLogger.info(String(message), ...rest);
 }
 
 export function debugLog(...args: any[]): void {
-  if (DEBUG) {
-    console.log('[OAuth Debug]', ...args);
+  const [message, ...rest] = args;
+  defaultLogger.debug(String(message), ...rest);
+}
+
+/** Profile used when none is configured */
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Storage key of a server's credentials. Each profile gets its own key; the default profile keeps
+ * the key used before profiles existed, so existing stores stay valid.
+ */
+export function getServerUrlHash(serverUrl: string, profile: string = DEFAULT_PROFILE): string {
+  const key = profile === DEFAULT_PROFILE ? serverUrl : `${serverUrl}\n${profile}`;
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * Best-effort check for whether a browser can be opened for the user: false over SSH, in CI
+ * and on Linux/BSD without an X11 or Wayland display.
+ */
+export function isDisplayAvailable(): boolean {
+  if (process.env.SSH_CONNECTION || process.env.SSH_TTY || process.env.CI) {
+    return false;
+  }
+  if (process.platform === 'darwin' || process.platform === 'win32') {
+    return true;
   }
+  return Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
 }
 
-export function getServerUrlHash(serverUrl: string): string {
-  return crypto.createHash('sha256').update(serverUrl).digest('hex').slice(0, 16);
+/**
+ * Whether tokens expire within `skewSeconds` from now. Tokens without a known expiry never expire.
+ */
+export function isTokenExpired(tokens: StoredOAuthTokens, skewSeconds = 0): boolean {
+  if (tokens.expires_at === undefined) {
+    return false;
+  }
+  return Date.now() / 1000 >= tokens.expires_at - skewSeconds;
+}
+
+export interface FileTokenStorageOptions extends EncryptionKeyOptions {
+  /** Cross-process lock timing, see `withLock` */
+  lock?: FileLockOptions;
 }
 
+/**
+ * Stores credentials as files under `<configDir>/<serverUrlHash>/`. Directories are created
+ * with mode 0700 and files with mode 0600, and every write goes through a temp file and a
+ * rename so a crash cannot leave a truncated file behind. When an encryption key is
+ * configured, files are encrypted with AES-256-GCM under a key derived with the store's random
+ * salt (kept in `<configDir>/encryption_salt`), and existing plaintext files are encrypted the
+ * first time they are read. Directories created by earlier versions are restricted when written to.
+ *
+ * `withLock` coordinates processes sharing the directory through a `lock` file per server, so
+ * only one of them authenticates or refreshes at a time.
+ */
 export class FileTokenStorage implements TokenStorage {
   private configDir: string;
+  private encryptionSecret?: Promise<string | Buffer | undefined>;
+  private encryptionSalt?: Promise<string>;
+  /** Derived keys by salt, since scrypt is deliberately slow */
+  private encryptionKeys = new Map<string, Buffer>();
+  private securedDirs = new Set<string>();
+  private lockQueues = new Map<string, Promise<unknown>>();
 
-  constructor(configDir?: string) {
+  constructor(configDir?: string, private readonly options: FileTokenStorageOptions = {}) {
     this.configDir = configDir || path.join(os.homedir(), '.config', 'mcp-oauth');
   }
 
@@ -40,80 +218,388 @@ export class FileTokenStorage implements TokenStorage {
     return path.join(this.configDir, serverUrlHash, 'code_verifier.txt');
   }
 
-  async getTokens(serverUrlHash: string): Promise<OAuthTokens | null> {
+  private getServerMetadataPath(serverUrlHash: string): string {
+    return path.join(this.configDir, serverUrlHash, 'server.json');
+  }
+
+  private getDPoPKeyPath(serverUrlHash: string): string {
+    return path.join(this.configDir, serverUrlHash, 'dpop_key.json');
+  }
+
+  private getDiscoveryPath(serverUrlHash: string): string {
+    return path.join(this.configDir, serverUrlHash, 'discovery.json');
+  }
+
+  private getAuthorizationSessionPath(serverUrlHash: string): string {
+    return path.join(this.configDir, serverUrlHash, 'authorization_session.json');
+  }
+
+  private getEncryptionSecret(): Promise<string | Buffer | undefined> {
+    if (!this.encryptionSecret) {
+      this.encryptionSecret = resolveEncryptionSecret(this.options);
+    }
+    return this.encryptionSecret;
+  }
+
+  private getEncryptionKey(secret: string | Buffer, salt: string): Buffer {
+    let key = this.encryptionKeys.get(salt);
+    if (!key) {
+      key = deriveEncryptionKey(secret, salt);
+      this.encryptionKeys.set(salt, key);
+    }
+    return key;
+  }
+
+  /**
+   * The store's salt, created on first use. A concurrent process may create it at the same
+   * time, in which case its salt wins.
+   */
+  private getEncryptionSalt(): Promise<string> {
+    if (!this.encryptionSalt) {
+      const saltPath = path.join(this.configDir, 'encryption_salt');
+      const readSalt = async () => (await fs.readFile(saltPath, 'utf-8')).trim();
+      this.encryptionSalt = readSalt().catch(async () => {
+        await fs.mkdir(this.configDir, { recursive: true, mode: 0o700 });
+        const salt = generateEncryptionSalt();
+        try {
+          await fs.writeFile(saltPath, salt, { mode: 0o600, flag: 'wx' });
+          return salt;
+        } catch (error: any) {
+          if (error?.code === 'EEXIST') {
+            return readSalt();
+          }
+          throw error;
+        }
+      });
+      this.encryptionSalt.catch(() => {
+        this.encryptionSalt = undefined;
+      });
+    }
+    return this.encryptionSalt;
+  }
+
+  private async readFile(filePath: string): Promise<string | null> {
+    let data: string;
     try {
-      const tokenPath = this.getTokenPath(serverUrlHash);
-      const data = await fs.readFile(tokenPath, 'utf-8');
-      return JSON.parse(data);
+      data = await fs.readFile(filePath, 'utf-8');
     } catch (error) {
       return null;
     }
+
+    const secret = await this.getEncryptionSecret();
+    const envelope = parseEncryptedEnvelope(data);
+    if (envelope) {
+      if (!secret) {
+        debugLog(`Cannot read encrypted ${filePath}: no encryption key configured`);
+        return null;
+      }
+      try {
+        return decrypt(envelope, this.getEncryptionKey(secret, envelope.salt));
+      } catch (error) {
+        debugLog(`Cannot decrypt ${filePath}: wrong encryption key or corrupted file`);
+        return null;
+      }
+    }
+
+    if (secret) {
+      // Migrate plaintext stores written before encryption was enabled
+      await this.writeFile(filePath, data);
+      debugLog(`Encrypted existing plaintext ${filePath}`);
+    }
+    return data;
   }
 
-  async saveTokens(serverUrlHash: string, tokens: OAuthTokens): Promise<void> {
-    const dir = path.join(this.configDir, serverUrlHash);
-    await fs.mkdir(dir, { recursive: true });
-    const tokenPath = this.getTokenPath(serverUrlHash);
-    await fs.writeFile(tokenPath, JSON.stringify(tokens, null, 2));
+  /**
+   * Restricts a directory the first time this store writes to it; `mkdir` only applies its mode
+   * to directories it creates, not to ones left by earlier versions.
+   */
+  private async secureDir(dir: string): Promise<void> {
+    if (!this.securedDirs.has(dir)) {
+      await fs.chmod(dir, 0o700);
+      this.securedDirs.add(dir);
+    }
   }
 
-  async deleteTokens(serverUrlHash: string): Promise<void> {
+  private async writeFile(filePath: string, data: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await this.secureDir(this.configDir);
+    await this.secureDir(path.dirname(filePath));
+
+    const secret = await this.getEncryptionSecret();
+    let contents = data;
+    if (secret) {
+      const salt = await this.getEncryptionSalt();
+      contents = encrypt(data, this.getEncryptionKey(secret, salt), salt);
+    }
+
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
     try {
-      const tokenPath = this.getTokenPath(serverUrlHash);
-      await fs.unlink(tokenPath);
+      await fs.writeFile(tempPath, contents, { mode: 0o600 });
+      await fs.rename(tempPath, filePath);
     } catch (error) {
-      // Ignore errors if file doesn't exist
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
     }
   }
 
-  async getClientInfo(serverUrlHash: string): Promise<OAuthClientInformationFull | null> {
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    const data = await this.readFile(filePath);
     try {
-      const clientPath = this.getClientInfoPath(serverUrlHash);
-      const data = await fs.readFile(clientPath, 'utf-8');
-      return JSON.parse(data);
+      return data ? JSON.parse(data) : null;
     } catch (error) {
       return null;
     }
   }
 
-  async saveClientInfo(serverUrlHash: string, clientInfo: OAuthClientInformationFull): Promise<void> {
-    const dir = path.join(this.configDir, serverUrlHash);
-    await fs.mkdir(dir, { recursive: true });
-    const clientPath = this.getClientInfoPath(serverUrlHash);
-    await fs.writeFile(clientPath, JSON.stringify(clientInfo, null, 2));
-  }
-
-  async deleteClientInfo(serverUrlHash: string): Promise<void> {
+  private async deleteFile(filePath: string): Promise<void> {
     try {
-      const clientPath = this.getClientInfoPath(serverUrlHash);
-      await fs.unlink(clientPath);
+      await fs.unlink(filePath);
     } catch (error) {
       // Ignore errors if file doesn't exist
     }
   }
 
+  async getTokens(serverUrlHash: string): Promise<StoredOAuthTokens | null> {
+    return this.readJson<StoredOAuthTokens>(this.getTokenPath(serverUrlHash));
+  }
+
+  async saveTokens(serverUrlHash: string, tokens: StoredOAuthTokens): Promise<void> {
+    await this.writeFile(this.getTokenPath(serverUrlHash), JSON.stringify(tokens, null, 2));
+  }
+
+  async deleteTokens(serverUrlHash: string): Promise<void> {
+    await this.deleteFile(this.getTokenPath(serverUrlHash));
+  }
+
+  async getClientInfo(serverUrlHash: string): Promise<OAuthClientInformationFull | null> {
+    return this.readJson<OAuthClientInformationFull>(this.getClientInfoPath(serverUrlHash));
+  }
+
+  async saveClientInfo(serverUrlHash: string, clientInfo: OAuthClientInformationFull): Promise<void> {
+    await this.writeFile(this.getClientInfoPath(serverUrlHash), JSON.stringify(clientInfo, null, 2));
+  }
+
+  async deleteClientInfo(serverUrlHash: string): Promise<void> {
+    await this.deleteFile(this.getClientInfoPath(serverUrlHash));
+  }
+
   async getCodeVerifier(serverUrlHash: string): Promise<string | null> {
+    return this.readFile(this.getCodeVerifierPath(serverUrlHash));
+  }
+
+  async saveCodeVerifier(serverUrlHash: string, verifier: string): Promise<void> {
+    await this.writeFile(this.getCodeVerifierPath(serverUrlHash), verifier);
+  }
+
+  async deleteCodeVerifier(serverUrlHash: string): Promise<void> {
+    await this.deleteFile(this.getCodeVerifierPath(serverUrlHash));
+  }
+
+  async getDPoPKey(serverUrlHash: string): Promise<JsonWebKey | null> {
+    return this.readJson<JsonWebKey>(this.getDPoPKeyPath(serverUrlHash));
+  }
+
+  async saveDPoPKey(serverUrlHash: string, key: JsonWebKey): Promise<void> {
+    await this.writeFile(this.getDPoPKeyPath(serverUrlHash), JSON.stringify(key, null, 2));
+  }
+
+  async deleteDPoPKey(serverUrlHash: string): Promise<void> {
+    await this.deleteFile(this.getDPoPKeyPath(serverUrlHash));
+  }
+
+  async getDiscovery(serverUrlHash: string): Promise<CachedDiscovery | null> {
+    return this.readJson<CachedDiscovery>(this.getDiscoveryPath(serverUrlHash));
+  }
+
+  async saveDiscovery(serverUrlHash: string, discovery: CachedDiscovery): Promise<void> {
+    await this.writeFile(this.getDiscoveryPath(serverUrlHash), JSON.stringify(discovery, null, 2));
+  }
+
+  async deleteDiscovery(serverUrlHash: string): Promise<void> {
+    await this.deleteFile(this.getDiscoveryPath(serverUrlHash));
+  }
+
+  async getAuthorizationSession(serverUrlHash: string): Promise<AuthorizationSession | null> {
+    return this.readJson<AuthorizationSession>(this.getAuthorizationSessionPath(serverUrlHash));
+  }
+
+  async saveAuthorizationSession(serverUrlHash: string, session: AuthorizationSession): Promise<void> {
+    await this.writeFile(this.getAuthorizationSessionPath(serverUrlHash), JSON.stringify(session, null, 2));
+  }
+
+  async deleteAuthorizationSession(serverUrlHash: string): Promise<void> {
+    await this.deleteFile(this.getAuthorizationSessionPath(serverUrlHash));
+  }
+
+  async getServerMetadata(serverUrlHash: string): Promise<StoredServerMetadata | null> {
+    return this.readJson<StoredServerMetadata>(this.getServerMetadataPath(serverUrlHash));
+  }
+
+  async saveServerMetadata(serverUrlHash: string, metadata: StoredServerMetadata): Promise<void> {
+    await this.writeFile(this.getServerMetadataPath(serverUrlHash), JSON.stringify(metadata, null, 2));
+  }
+
+  /**
+   * Hashes of every server with a directory in the store.
+   */
+  async listServers(): Promise<string[]> {
     try {
-      const verifierPath = this.getCodeVerifierPath(serverUrlHash);
-      return await fs.readFile(verifierPath, 'utf-8');
+      const entries = await fs.readdir(this.configDir, { withFileTypes: true });
+      return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
     } catch (error) {
-      return null;
+      return [];
     }
   }
 
+  /**
+   * Removes everything stored for a server.
+   */
+  async deleteServer(serverUrlHash: string): Promise<void> {
+    await fs.rm(path.join(this.configDir, serverUrlHash), { recursive: true, force: true });
+  }
+
+  /**
+   * Runs `task` while holding the server's lock file. Callers in this process queue up first,
+   * so the lock file is only contended between processes. A lock whose holder died is
+   * recovered once it goes stale.
+   */
+  async withLock<T>(serverUrlHash: string, task: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      const lockPath = path.join(this.configDir, serverUrlHash, 'lock');
+      const release = await acquireFileLock(lockPath, this.options.lock);
+      try {
+        return await task();
+      } finally {
+        await release();
+      }
+    };
+
+    const previous = this.lockQueues.get(serverUrlHash) || Promise.resolve();
+    const current = previous.then(run, run);
+    const settled = current.catch(() => undefined);
+    this.lockQueues.set(serverUrlHash, settled);
+    settled.then(() => {
+      if (this.lockQueues.get(serverUrlHash) === settled) {
+        this.lockQueues.delete(serverUrlHash);
+      }
+    });
+    return current;
+  }
+}
+
+/**
+ * Keeps credentials in process memory only. Useful for tests and for environments without a
+ * writable home directory; credentials are lost when the process exits.
+ */
+export class InMemoryTokenStorage implements TokenStorage {
+  private tokens = new Map<string, StoredOAuthTokens>();
+  private clientInfo = new Map<string, OAuthClientInformationFull>();
+  private codeVerifiers = new Map<string, string>();
+  private dpopKeys = new Map<string, JsonWebKey>();
+  private serverMetadata = new Map<string, StoredServerMetadata>();
+  private discovery = new Map<string, CachedDiscovery>();
+  private authorizationSessions = new Map<string, AuthorizationSession>();
+
+  async getTokens(serverUrlHash: string): Promise<StoredOAuthTokens | null> {
+    return this.tokens.get(serverUrlHash) || null;
+  }
+
+  async saveTokens(serverUrlHash: string, tokens: StoredOAuthTokens): Promise<void> {
+    this.tokens.set(serverUrlHash, tokens);
+  }
+
+  async deleteTokens(serverUrlHash: string): Promise<void> {
+    this.tokens.delete(serverUrlHash);
+  }
+
+  async getClientInfo(serverUrlHash: string): Promise<OAuthClientInformationFull | null> {
+    return this.clientInfo.get(serverUrlHash) || null;
+  }
+
+  async saveClientInfo(serverUrlHash: string, clientInfo: OAuthClientInformationFull): Promise<void> {
+    this.clientInfo.set(serverUrlHash, clientInfo);
+  }
+
+  async deleteClientInfo(serverUrlHash: string): Promise<void> {
+    this.clientInfo.delete(serverUrlHash);
+  }
+
+  async getCodeVerifier(serverUrlHash: string): Promise<string | null> {
+    return this.codeVerifiers.get(serverUrlHash) || null;
+  }
+
   async saveCodeVerifier(serverUrlHash: string, verifier: string): Promise<void> {
-    const dir = path.join(this.configDir, serverUrlHash);
-    await fs.mkdir(dir, { recursive: true });
-    const verifierPath = this.getCodeVerifierPath(serverUrlHash);
-    await fs.writeFile(verifierPath, verifier);
+    this.codeVerifiers.set(serverUrlHash, verifier);
   }
 
   async deleteCodeVerifier(serverUrlHash: string): Promise<void> {
-    try {
-      const verifierPath = this.getCodeVerifierPath(serverUrlHash);
-      await fs.unlink(verifierPath);
-    } catch (error) {
-      // Ignore errors if file doesn't exist
+    this.codeVerifiers.delete(serverUrlHash);
+  }
+
+  async getDPoPKey(serverUrlHash: string): Promise<JsonWebKey | null> {
+    return this.dpopKeys.get(serverUrlHash) || null;
+  }
+
+  async saveDPoPKey(serverUrlHash: string, key: JsonWebKey): Promise<void> {
+    this.dpopKeys.set(serverUrlHash, key);
+  }
+
+  async deleteDPoPKey(serverUrlHash: string): Promise<void> {
+    this.dpopKeys.delete(serverUrlHash);
+  }
+
+  async getDiscovery(serverUrlHash: string): Promise<CachedDiscovery | null> {
+    return this.discovery.get(serverUrlHash) || null;
+  }
+
+  async saveDiscovery(serverUrlHash: string, discovery: CachedDiscovery): Promise<void> {
+    this.discovery.set(serverUrlHash, discovery);
+  }
+
+  async deleteDiscovery(serverUrlHash: string): Promise<void> {
+    this.discovery.delete(serverUrlHash);
+  }
+
+  async getAuthorizationSession(serverUrlHash: string): Promise<AuthorizationSession | null> {
+    return this.authorizationSessions.get(serverUrlHash) || null;
+  }
+
+  async saveAuthorizationSession(serverUrlHash: string, session: AuthorizationSession): Promise<void> {
+    this.authorizationSessions.set(serverUrlHash, session);
+  }
+
+  async deleteAuthorizationSession(serverUrlHash: string): Promise<void> {
+    this.authorizationSessions.delete(serverUrlHash);
+  }
+
+  async getServerMetadata(serverUrlHash: string): Promise<StoredServerMetadata | null> {
+    return this.serverMetadata.get(serverUrlHash) || null;
+  }
+
+  async saveServerMetadata(serverUrlHash: string, metadata: StoredServerMetadata): Promise<void> {
+    this.serverMetadata.set(serverUrlHash, metadata);
+  }
+
+  async listServers(): Promise<string[]> {
+    const hashes = new Set(this.serverMaps().flatMap((map) => Array.from(map.keys())));
+    return Array.from(hashes).sort();
+  }
+
+  async deleteServer(serverUrlHash: string): Promise<void> {
+    for (const map of this.serverMaps()) {
+      map.delete(serverUrlHash);
     }
   }
+
+  private serverMaps(): Map<string, unknown>[] {
+    return [
+      this.tokens,
+      this.clientInfo,
+      this.codeVerifiers,
+      this.dpopKeys,
+      this.serverMetadata,
+      this.discovery,
+      this.authorizationSessions
+    ];
+  }
 }
\ No newline at end of file
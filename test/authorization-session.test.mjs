@@ -0,0 +1,116 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OAuthClientProvider,
+  InMemoryTokenStorage,
+  getServerUrlHash
+} from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+const redirectUri = 'com.example.app:/oauth/callback';
+
+describe('authorization sessions', () => {
+  let server;
+  let storage;
+  let browser;
+  let hash;
+  const providers = [];
+
+  function createProvider(options = {}) {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      redirectUri,
+      ...options
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  /**
+   * Starts an authorization and shuts the provider down once the browser reached the redirect,
+   * as if the application was closed before handling it.
+   */
+  async function abandonAuthorization() {
+    let openAuthorizationUrl;
+    const authorizationUrl = new Promise((resolve) => { openAuthorizationUrl = resolve; });
+    const provider = createProvider({ onAuthorizationUrl: openAuthorizationUrl });
+    const authenticated = provider.ensureAuthenticated();
+    await browser.open(await authorizationUrl);
+    await provider.cleanup();
+    await assert.rejects(authenticated, /abandoned/);
+    return browser.lastUrl;
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read'] });
+    await server.start();
+    storage = new InMemoryTokenStorage();
+    browser = new BrowserStub();
+    hash = getServerUrlHash(server.mcpUrl);
+  });
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('completes an authorization started before a restart', async () => {
+    const callbackUrl = await abandonAuthorization();
+    const session = await storage.getAuthorizationSession(hash);
+    assert.equal(session.redirectUri, redirectUri);
+    assert.equal(session.resource, server.mcpUrl);
+
+    const provider = createProvider();
+    assert.equal((await provider.getAuthStatus()).authorizationPending, true);
+    await provider.completeAuthorization(callbackUrl);
+
+    assert.ok((await storage.getTokens(hash))?.access_token);
+    assert.equal(await storage.getAuthorizationSession(hash), null);
+    assert.equal((await provider.getAuthStatus()).authorizationPending, false);
+  });
+
+  it('rejects a callback for another authorization and keeps the session', async () => {
+    const callbackUrl = new URL(await abandonAuthorization());
+    callbackUrl.searchParams.set('state', 'forged');
+
+    await assert.rejects(createProvider().completeAuthorization(callbackUrl), /state does not match/);
+    assert.ok(await storage.getAuthorizationSession(hash));
+  });
+
+  it('removes expired sessions', async () => {
+    const callbackUrl = await abandonAuthorization();
+    const session = await storage.getAuthorizationSession(hash);
+    await storage.saveAuthorizationSession(hash, { ...session, expiresAt: Date.now() - 1 });
+
+    await assert.rejects(createProvider().completeAuthorization(callbackUrl), /No authorization in progress/);
+    assert.equal(await storage.getAuthorizationSession(hash), null);
+  });
+
+  it('lists and removes a profile that only has a pending session', async () => {
+    const callbackUrl = await abandonAuthorization();
+    const adminHash = getServerUrlHash(server.mcpUrl, 'admin');
+    await storage.saveAuthorizationSession(adminHash, await storage.getAuthorizationSession(hash));
+
+    assert.ok((await storage.listServers()).includes(adminHash));
+    await createProvider().removeProfile('admin');
+    assert.equal(await storage.getAuthorizationSession(adminHash), null);
+    assert.ok(!(await storage.listServers()).includes(adminHash));
+    await createProvider().completeAuthorization(callbackUrl);
+  });
+
+  it('deletes the verifier once the code is exchanged', async () => {
+    const provider = createProvider({ redirectUri: undefined, onAuthorizationUrl: browser.open });
+
+    await provider.ensureAuthenticated();
+
+    assert.ok((await storage.getTokens(hash))?.access_token);
+    assert.equal(await storage.getAuthorizationSession(hash), null);
+    assert.equal(await storage.getCodeVerifier(hash), null);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter, once } from 'node:events';
+import axios from 'axios';
+import { SharedOAuthCallbackServer } from '../dist/index.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('SharedOAuthCallbackServer', () => {
+  let callbackServer;
+
+  async function get(port, path) {
+    return axios.get(`http://localhost:${port}${path}`, {
+      maxRedirects: 0,
+      validateStatus: () => true,
+      responseType: 'text'
+    });
+  }
+
+  beforeEach(() => {
+    callbackServer = new SharedOAuthCallbackServer({ ports: [0], path: '/oauth/callback', logger: silentLogger });
+  });
+
+  afterEach(async () => {
+    await callbackServer.close();
+  });
+
+  it('routes a callback to the target registered for its state', async () => {
+    const first = new EventEmitter();
+    const second = new EventEmitter();
+    const port = await callbackServer.register('state-1', { events: first });
+    await callbackServer.register('state-2', { events: second });
+
+    const code = once(second, 'auth-code');
+    const response = await get(port, '/oauth/callback?code=abc&state=state-2');
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await code, ['abc']);
+  });
+
+  it('rejects callbacks with an unknown state', async () => {
+    const events = new EventEmitter();
+    let delivered = false;
+    events.on('auth-code', () => { delivered = true; });
+    const port = await callbackServer.register('expected', { events });
+
+    const response = await get(port, '/oauth/callback?code=abc&state=forged');
+
+    assert.equal(response.status, 400);
+    assert.equal(delivered, false);
+  });
+
+  it('delivers errors and escapes them in the page', async () => {
+    const events = new EventEmitter();
+    const port = await callbackServer.register('state', { events });
+
+    const error = once(events, 'auth-error');
+    const response = await get(port, '/oauth/callback?state=state&error=access_denied&error_description=%3Cscript%3E');
+
+    assert.deepEqual(await error, ['access_denied', '<script>']);
+    assert.doesNotMatch(response.data, /<script>/);
+    assert.match(response.data, /&lt;script&gt;/);
+  });
+
+  it('rejects callbacks with a mismatched issuer', async () => {
+    const events = new EventEmitter();
+    let delivered = false;
+    events.on('auth-code', () => { delivered = true; });
+    const port = await callbackServer.register('state', { events, issuer: 'https://as.example.com' });
+
+    const response = await get(port, '/oauth/callback?code=abc&state=state&iss=https%3A%2F%2Fevil.example.com');
+
+    assert.equal(response.status, 400);
+    assert.equal(delivered, false);
+  });
+
+  it('ignores other paths and favicon requests', async () => {
+    const port = await callbackServer.register('state', { events: new EventEmitter() });
+
+    assert.equal((await get(port, '/favicon.ico')).status, 204);
+    assert.equal((await get(port, '/other')).status, 404);
+  });
+
+  it('redirects to the configured success page', async () => {
+    const events = new EventEmitter();
+    const port = await callbackServer.register('state', {
+      events,
+      pages: { successRedirect: 'https://app.example.com/done' }
+    });
+
+    const response = await get(port, '/oauth/callback?code=abc&state=state');
+
+    assert.equal(response.status, 302);
+    assert.equal(response.headers.location, 'https://app.example.com/done');
+  });
+
+  it('starts on the port preferred by the first registration', async () => {
+    const port = await callbackServer.register('state', { events: new EventEmitter() });
+    await callbackServer.close();
+
+    const restarted = new SharedOAuthCallbackServer({ ports: [0], path: '/oauth/callback', logger: silentLogger });
+    try {
+      assert.equal(await restarted.register('state', { events: new EventEmitter() }, [port, 0]), port);
+    } finally {
+      await restarted.close();
+    }
+  });
+
+  it('stops listening once the last authorization is unregistered', async () => {
+    const port = await callbackServer.register('state', { events: new EventEmitter() });
+
+    callbackServer.unregister('state');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await assert.rejects(get(port, '/oauth/callback'), { code: 'ECONNREFUSED' });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { OAuthClientProvider, InMemoryTokenStorage, TokenExchangeError } from '../dist/index.mjs';
+import { MockAuthorizationServer } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+function decodePayload(jwt) {
+  return JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf-8'));
+}
+
+describe('private_key_jwt client authentication', () => {
+  let server;
+  let key;
+  const providers = [];
+
+  function createProvider(options = {}) {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage: new InMemoryTokenStorage(),
+      logger: silentLogger,
+      grantType: 'client_credentials',
+      clientAssertionKey: { privateKey: key.privateKey, keyId: 'key-1' },
+      ...options
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  function registerClient(metadata = {}) {
+    return server.registerClient({
+      grant_types: ['client_credentials'],
+      token_endpoint_auth_method: 'private_key_jwt',
+      jwks: { keys: [{ ...key.publicKey.export({ format: 'jwk' }), kid: 'key-1' }] },
+      ...metadata
+    });
+  }
+
+  function tokenRequests() {
+    return server.requests.filter((request) => request.path === '/token');
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer();
+    await server.start();
+    key = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  });
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('authenticates with a signed client assertion', async () => {
+    const client = registerClient();
+
+    const tokens = await createProvider({ staticOAuthClientInfo: client }).tokens();
+
+    assert.ok(server.isAccessTokenValid(tokens.access_token));
+    const [request] = tokenRequests();
+    assert.equal(request.body.client_assertion_type, 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer');
+    assert.equal(request.headers.authorization, undefined);
+    const assertion = decodePayload(request.body.client_assertion);
+    assert.equal(assertion.iss, client.client_id);
+    assert.equal(assertion.sub, client.client_id);
+    assert.equal(assertion.aud, `${server.url}/token`);
+  });
+
+  it('prefers the assertion over a client secret when the client has no registered method', async () => {
+    const { token_endpoint_auth_method, ...client } = registerClient({ token_endpoint_auth_method: 'client_secret_basic' });
+    assert.ok(client.client_secret);
+
+    await createProvider({ staticOAuthClientInfo: client }).tokens();
+
+    assert.ok(tokenRequests()[0].body.client_assertion);
+    assert.equal(tokenRequests()[0].headers.authorization, undefined);
+  });
+
+  it('is rejected when signed with a key the server does not know', async () => {
+    const client = registerClient();
+    const otherKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const provider = createProvider({
+      staticOAuthClientInfo: client,
+      clientAssertionKey: { privateKey: otherKey.privateKey, keyId: 'key-1' }
+    });
+
+    await assert.rejects(provider.ensureAuthenticated(), TokenExchangeError);
+    assert.equal(tokenRequests().length, 1);
+  });
+});
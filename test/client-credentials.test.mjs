@@ -0,0 +1,87 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OAuthClientProvider,
+  InMemoryTokenStorage,
+  TokenExchangeError,
+  getServerUrlHash
+} from '../dist/index.mjs';
+import { MockAuthorizationServer } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('client credentials grant', () => {
+  let server;
+  let storage;
+  const providers = [];
+
+  function createProvider(options = {}) {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      grantType: 'client_credentials',
+      onAuthorizationUrl: () => assert.fail('client credentials must not open a browser'),
+      ...options
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  function tokenRequests() {
+    return server.requests.filter((request) => request.path === '/token');
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read', 'mcp:tools'] });
+    await server.start();
+    storage = new InMemoryTokenStorage();
+  });
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('obtains tokens with the client secret and the configured scopes', async () => {
+    const client = server.registerClient({ grant_types: ['client_credentials'] });
+    const provider = createProvider({ staticOAuthClientInfo: client, scopes: ['mcp:tools'] });
+
+    const tokens = await provider.tokens();
+
+    assert.ok(server.isAccessTokenValid(tokens.access_token));
+    assert.equal(tokens.refresh_token, undefined);
+    assert.equal(tokenRequests().length, 1);
+    assert.equal(tokenRequests()[0].body.grant_type, 'client_credentials');
+    assert.equal(tokenRequests()[0].body.scope, 'mcp:tools');
+    assert.match(tokenRequests()[0].headers.authorization, /^Basic /);
+    assert.equal(server.requests.filter((request) => request.path === '/register').length, 0);
+  });
+
+  it('requests new tokens once the current ones expire', async () => {
+    const client = server.registerClient({ grant_types: ['client_credentials'] });
+    const provider = createProvider({ staticOAuthClientInfo: client });
+    const first = await provider.tokens();
+    const hash = getServerUrlHash(server.mcpUrl);
+    await storage.saveTokens(hash, { ...(await storage.getTokens(hash)), expires_at: 0 });
+
+    const second = await provider.tokens();
+
+    assert.notEqual(second.access_token, first.access_token);
+    assert.deepEqual(tokenRequests().map((request) => request.body.grant_type), ['client_credentials', 'client_credentials']);
+  });
+
+  it('refuses a public client', async () => {
+    const client = server.registerClient({ grant_types: ['client_credentials'], token_endpoint_auth_method: 'none' });
+
+    await assert.rejects(createProvider({ staticOAuthClientInfo: client }).ensureAuthenticated(), (error) => {
+      assert.ok(error instanceof TokenExchangeError);
+      assert.match(error.message, /requires a client secret or a client assertion key/);
+      return true;
+    });
+    assert.equal(tokenRequests().length, 0);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OAuthClientProvider,
+  InMemoryTokenStorage,
+  DiscoveryError,
+  discoverAuthorization,
+  getServerUrlHash
+} from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('discovery', () => {
+  let server;
+  const providers = [];
+
+  async function startServer(options = {}) {
+    server = new MockAuthorizationServer(options);
+    await server.start();
+    return server;
+  }
+
+  function createProvider(storage) {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      onAuthorizationUrl: new BrowserStub().open
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  function discoveryRequests() {
+    return server.requests.filter((request) => request.path.startsWith('/.well-known/'));
+  }
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('reuses stored discovery results in a new process', async () => {
+    await startServer();
+    const storage = new InMemoryTokenStorage();
+    const tokens = await createProvider(storage).tokens();
+    const requestsAfterLogin = discoveryRequests().length;
+
+    await createProvider(storage).refreshTokens(tokens.refresh_token);
+
+    assert.equal(discoveryRequests().length, requestsAfterLogin);
+    assert.ok(await storage.getDiscovery(getServerUrlHash(server.mcpUrl)));
+  });
+
+  it('revalidates stale documents with conditional requests', async () => {
+    await startServer({ metadataMaxAge: 0 });
+    const storage = new InMemoryTokenStorage();
+    const tokens = await createProvider(storage).tokens();
+    const requestsAfterLogin = discoveryRequests().length;
+
+    await createProvider(storage).refreshTokens(tokens.refresh_token);
+
+    const revalidations = discoveryRequests().slice(requestsAfterLogin);
+    assert.equal(revalidations.length, 2);
+    assert.ok(revalidations.every((request) => request.headers['if-none-match']));
+  });
+
+  it('discovers again when a cached endpoint fails', async () => {
+    await startServer();
+    const storage = new InMemoryTokenStorage();
+    const hash = getServerUrlHash(server.mcpUrl);
+    const tokens = await createProvider(storage).tokens();
+    const cached = await storage.getDiscovery(hash);
+    cached.authorizationServerMetadata.data.token_endpoint = `${server.url}/moved`;
+    await storage.saveDiscovery(hash, cached);
+
+    const refreshed = await createProvider(storage).refreshTokens(tokens.refresh_token);
+
+    assert.ok(refreshed.access_token);
+    assert.equal((await storage.getDiscovery(hash)).authorizationServerMetadata.data.token_endpoint, `${server.url}/token`);
+  });
+
+  it('rejects metadata whose issuer does not match the authorization server', async () => {
+    await startServer({ metadata: { issuer: 'https://attacker.example.com' } });
+
+    await assert.rejects(discoverAuthorization(server.mcpUrl, { logger: silentLogger }), (error) => {
+      assert.ok(error instanceof DiscoveryError);
+      assert.match(error.message, /names issuer https:\/\/attacker\.example\.com/);
+      return true;
+    });
+  });
+
+  it('rejects authorization servers without PKCE S256 support', async () => {
+    await startServer({ metadata: { code_challenge_methods_supported: ['plain'] } });
+
+    await assert.rejects(discoverAuthorization(server.mcpUrl, { logger: silentLogger }), /does not support PKCE with S256/);
+    await assert.doesNotReject(discoverAuthorization(server.mcpUrl, { logger: silentLogger, requirePkce: false }));
+  });
+
+  it('reports schema violations precisely', async () => {
+    await startServer({ metadata: { token_endpoint: undefined } });
+
+    await assert.rejects(discoverAuthorization(server.mcpUrl, { logger: silentLogger }), /token_endpoint: Required/);
+  });
+});
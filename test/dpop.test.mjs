@@ -0,0 +1,116 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { OAuthClientProvider, InMemoryTokenStorage, getServerUrlHash } from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+function decodeProof(proof) {
+  const [header, payload] = proof.split('.').slice(0, 2)
+    .map((part) => JSON.parse(Buffer.from(part, 'base64url').toString('utf-8')));
+  return { header, payload };
+}
+
+describe('DPoP-bound tokens', () => {
+  let server;
+  let storage;
+  let browser;
+  const providers = [];
+
+  function createProvider(options = {}) {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      onAuthorizationUrl: browser.open,
+      dpop: true,
+      ...options
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  function tokenRequests() {
+    return server.requests.filter((request) => request.path === '/token');
+  }
+
+  async function callMcp(provider, accessToken) {
+    const response = await provider.createDPoPFetch()(server.mcpUrl, {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+    return response.status;
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read'], dpopNonce: 'nonce-1' });
+    await server.start();
+    storage = new InMemoryTokenStorage();
+    browser = new BrowserStub();
+  });
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('binds the authorization code and tokens to the DPoP key', async () => {
+    const provider = createProvider();
+
+    const tokens = await provider.tokens();
+
+    assert.equal(tokens.token_type, 'DPoP');
+    const jkt = new URL(browser.visited.find((url) => url.includes('/authorize'))).searchParams.get('dpop_jkt');
+    assert.ok(jkt);
+
+    // The first proof is answered with use_dpop_nonce, the retry carries the nonce
+    const proofs = tokenRequests().map((request) => decodeProof(request.headers.dpop));
+    assert.equal(proofs.length, 2);
+    assert.equal(proofs[0].payload.nonce, undefined);
+    assert.equal(proofs[1].payload.nonce, 'nonce-1');
+    assert.equal(proofs[1].header.typ, 'dpop+jwt');
+    assert.equal(proofs[1].payload.htm, 'POST');
+    assert.equal(proofs[1].payload.htu, `${server.url}/token`);
+
+    assert.equal(await callMcp(provider, tokens.access_token), 200);
+    const mcpRequest = server.requests.filter((request) => request.path === '/mcp').pop();
+    assert.match(mcpRequest.headers.authorization, /^DPoP /);
+    assert.ok(decodeProof(mcpRequest.headers.dpop).payload.ath);
+  });
+
+  it('refuses a bound token presented without a proof', async () => {
+    const tokens = await createProvider().tokens();
+
+    const response = await fetch(server.mcpUrl, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate'), /^DPoP error="invalid_token"/);
+  });
+
+  it('refreshes with a proof from the same key', async () => {
+    await createProvider().ensureAuthenticated();
+    const hash = getServerUrlHash(server.mcpUrl);
+    await storage.saveTokens(hash, { ...(await storage.getTokens(hash)), expires_at: 0 });
+
+    // A fresh process knows neither the tokens' key from memory nor the nonces
+    const provider = createProvider();
+    const tokens = await provider.tokens();
+
+    const refreshes = tokenRequests().filter((request) => request.body.grant_type === 'refresh_token');
+    assert.equal(refreshes.length, 2);
+    assert.equal(tokens.token_type, 'DPoP');
+    assert.equal(await callMcp(provider, tokens.access_token), 200);
+  });
+
+  it('answers the nonce challenge of the MCP server', async () => {
+    const tokens = await createProvider().tokens();
+    const provider = createProvider();
+
+    assert.equal(await callMcp(provider, tokens.access_token), 200);
+
+    const mcpRequests = server.requests.filter((request) => request.path === '/mcp' && request.headers.dpop);
+    assert.deepEqual(mcpRequests.map((request) => decodeProof(request.headers.dpop).payload.nonce), [undefined, 'nonce-1']);
+  });
+});
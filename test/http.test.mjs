@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { HttpClient, getProxyForUrl } from '../dist/index.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('HttpClient', () => {
+  let server;
+  let baseUrl;
+  let responses;
+  let requests;
+
+  beforeEach(async () => {
+    responses = [];
+    requests = [];
+    server = createServer((req, res) => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers });
+      const next = responses.shift() || { status: 200, body: { ok: true } };
+      if (next.hang) {
+        return;
+      }
+      res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+      res.end(JSON.stringify(next.body ?? {}));
+    });
+    await new Promise((resolve) => server.listen(0, 'localhost', resolve));
+    baseUrl = `http://localhost:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('retries 429 and 503 responses that carry Retry-After, for any method', async () => {
+    responses.push({ status: 429, headers: { 'Retry-After': '0' } });
+    responses.push({ status: 503, headers: { 'Retry-After': '0' } });
+    const http = new HttpClient({ logger: silentLogger, proxy: false });
+
+    const response = await http.post(`${baseUrl}/token`, 'grant_type=client_credentials');
+
+    assert.equal(response.status, 200);
+    assert.equal(requests.length, 3);
+  });
+
+  it('does not retry a non-idempotent request after a 5xx without Retry-After', async () => {
+    responses.push({ status: 502 });
+    const http = new HttpClient({ logger: silentLogger, proxy: false, retryDelayMs: 1 });
+
+    await assert.rejects(http.post(`${baseUrl}/token`, 'grant_type=authorization_code'), (error) => error.response?.status === 502);
+    assert.equal(requests.length, 1);
+  });
+
+  it('retries idempotent requests with backoff until the retries run out', async () => {
+    responses.push({ status: 500 }, { status: 500 }, { status: 500 });
+    const http = new HttpClient({ logger: silentLogger, proxy: false, retries: 2, retryDelayMs: 1 });
+
+    await assert.rejects(http.get(`${baseUrl}/.well-known/oauth-authorization-server`), (error) => error.response?.status === 500);
+    assert.equal(requests.length, 3);
+  });
+
+  it('gives up when Retry-After exceeds the maximum delay', async () => {
+    responses.push({ status: 503, headers: { 'Retry-After': '120' } });
+    const http = new HttpClient({ logger: silentLogger, proxy: false, maxRetryDelayMs: 1000 });
+
+    await assert.rejects(http.get(baseUrl), (error) => error.response?.status === 503);
+    assert.equal(requests.length, 1);
+  });
+
+  it('times out requests', async () => {
+    responses.push({ hang: true });
+    const http = new HttpClient({ logger: silentLogger, proxy: false, timeoutMs: 50, retries: 0 });
+
+    await assert.rejects(http.get(baseUrl), { code: 'ECONNABORTED' });
+  });
+
+  it('sends requests through a custom fetch', async () => {
+    const calls = [];
+    const http = new HttpClient({
+      logger: silentLogger,
+      fetch: (url, init) => {
+        calls.push({ url: url.toString(), method: init?.method });
+        return fetch(url, init);
+      }
+    });
+
+    const response = await http.post(`${baseUrl}/register`, { client_name: 'test' });
+
+    assert.deepEqual(response.data, { ok: true });
+    assert.deepEqual(calls, [{ url: `${baseUrl}/register`, method: 'POST' }]);
+    assert.equal(requests[0].headers['content-type'], 'application/json');
+  });
+
+  it('sends plain HTTP requests to the proxy', async () => {
+    const http = new HttpClient({ logger: silentLogger, proxy: baseUrl });
+
+    await http.get('http://as.example.com/.well-known/oauth-authorization-server');
+
+    assert.equal(requests[0].url, 'http://as.example.com/.well-known/oauth-authorization-server');
+    assert.equal(requests[0].headers.host, 'as.example.com');
+  });
+});
+
+describe('getProxyForUrl', () => {
+  const env = { HTTPS_PROXY: 'http://proxy:3128', NO_PROXY: 'localhost,.internal.example.com,intranet:8443' };
+
+  it('uses HTTPS_PROXY for https URLs', () => {
+    assert.equal(getProxyForUrl('https://as.example.com/token', env), 'http://proxy:3128');
+    assert.equal(getProxyForUrl('http://as.example.com/token', env), undefined);
+  });
+
+  it('skips hosts listed in NO_PROXY', () => {
+    assert.equal(getProxyForUrl('https://localhost:8080/', env), undefined);
+    assert.equal(getProxyForUrl('https://auth.internal.example.com/', env), undefined);
+    assert.equal(getProxyForUrl('https://intranet:8443/', env), undefined);
+    assert.equal(getProxyForUrl('https://intranet/', env), 'http://proxy:3128');
+  });
+
+  it('bypasses every host for NO_PROXY=*', () => {
+    assert.equal(getProxyForUrl('https://as.example.com/', { ...env, NO_PROXY: '*' }), undefined);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { OAuthClientProvider, FileTokenStorage, getServerUrlHash } from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('cross-process locking', () => {
+  let server;
+  let browser;
+  let dir;
+  let hash;
+  const providers = [];
+
+  // Separate storage instances share nothing in memory, like separate processes
+  function createProvider() {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage: new FileTokenStorage(dir),
+      logger: silentLogger,
+      onAuthorizationUrl: browser.open
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  function tokenRequests(grantType) {
+    return server.requests.filter((request) => request.path === '/token' && request.body.grant_type === grantType);
+  }
+
+  async function writeLock(info, ageMs = 0) {
+    const lockPath = path.join(dir, hash, 'lock');
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, JSON.stringify({ hostname: os.hostname(), createdAt: Date.now(), ...info }));
+    const mtime = new Date(Date.now() - ageMs);
+    await fs.utimes(lockPath, mtime, mtime);
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read'] });
+    await server.start();
+    browser = new BrowserStub();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-oauth-lock-'));
+    hash = getServerUrlHash(server.mcpUrl);
+  });
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('authorizes once when several processes need tokens', async () => {
+    const [first, second] = await Promise.all([createProvider().tokens(), createProvider().tokens()]);
+
+    assert.equal(first.access_token, second.access_token);
+    assert.equal(browser.visited.filter((url) => url.includes('/authorize')).length, 1);
+    assert.equal(server.clients.size, 1);
+  });
+
+  it('refreshes once and shares the rotated tokens', async () => {
+    await createProvider().ensureAuthenticated();
+    const storage = new FileTokenStorage(dir);
+    await storage.saveTokens(hash, { ...(await storage.getTokens(hash)), expires_at: 0 });
+
+    const [first, second] = await Promise.all([createProvider().tokens(), createProvider().tokens()]);
+
+    assert.equal(first.access_token, second.access_token);
+    assert.equal(tokenRequests('refresh_token').length, 1);
+  });
+
+  it('takes over the lock of a process that died', async () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    await writeLock({ pid });
+
+    const started = Date.now();
+    await new FileTokenStorage(dir).withLock(hash, async () => {});
+
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  it('takes over a lock that is no longer refreshed', async () => {
+    await writeLock({ pid: process.pid, hostname: 'other-host' }, 60_000);
+
+    await new FileTokenStorage(dir, { lock: { staleMs: 1000 } }).withLock(hash, async () => {});
+  });
+
+  it('keeps a long-running holder alive with its heartbeat', async () => {
+    const options = { lock: { staleMs: 150 } };
+    const order = [];
+    let acquired;
+    const held = new Promise((resolve) => { acquired = resolve; });
+
+    const holder = new FileTokenStorage(dir, options).withLock(hash, async () => {
+      acquired();
+      order.push('holder start');
+      await sleep(600);
+      order.push('holder end');
+    });
+    await held;
+    await new FileTokenStorage(dir, options).withLock(hash, async () => {
+      order.push('waiter');
+    });
+    await holder;
+
+    assert.deepEqual(order, ['holder start', 'holder end', 'waiter']);
+  });
+});
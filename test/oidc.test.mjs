@@ -0,0 +1,168 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import {
+  OAuthClientProvider,
+  InMemoryTokenStorage,
+  IdentityError,
+  validateIdToken,
+  getServerUrlHash
+} from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('OpenID Connect', () => {
+  let server;
+  let storage;
+  let browser;
+  const providers = [];
+
+  async function startServer(options = {}) {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read'], ...options });
+    await server.start();
+    storage = new InMemoryTokenStorage();
+    browser = new BrowserStub();
+    return server;
+  }
+
+  function createProvider() {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      oidc: true,
+      onAuthorizationUrl: browser.open
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  async function storedTokens() {
+    return storage.getTokens(getServerUrlHash(server.mcpUrl));
+  }
+
+  async function expireStoredTokens() {
+    const tokens = await storedTokens();
+    await storage.saveTokens(getServerUrlHash(server.mcpUrl), { ...tokens, expires_at: 0 });
+  }
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('requests openid with a nonce and exposes the signed-in identity', async () => {
+    await startServer();
+    const provider = createProvider();
+
+    await provider.ensureAuthenticated();
+
+    const authorizeUrl = new URL(browser.visited[0]);
+    assert.ok(authorizeUrl.searchParams.get('scope').split(' ').includes('openid'));
+    assert.ok(authorizeUrl.searchParams.get('nonce'));
+    assert.ok((await storedTokens()).id_token);
+
+    const identity = await provider.getIdentity();
+    assert.equal(identity.issuer, server.url);
+    assert.equal(identity.subject, 'user-1');
+    assert.equal(identity.email, 'user@example.com');
+  });
+
+  it('fetches user info', async () => {
+    await startServer();
+    const provider = createProvider();
+    await provider.ensureAuthenticated();
+
+    const userInfo = await provider.userInfo();
+
+    assert.equal(userInfo.sub, 'user-1');
+    assert.equal(userInfo.name, 'Test User');
+  });
+
+  for (const [problem, claims, message] of [
+    ['another audience', { aud: 'someone-else' }, /not issued for this client/],
+    ['another issuer', { iss: 'https://attacker.example.com' }, /issuer/],
+    ['a wrong nonce', { nonce: 'replayed' }, /nonce/],
+    ['an expiry in the past', { exp: 1 }, /expired/],
+    ['a foreign authorized party', { azp: 'someone-else' }, /authorized for another client/]
+  ]) {
+    it(`rejects an id_token with ${problem} and keeps no tokens`, async () => {
+      await startServer({ idTokenClaims: claims });
+
+      await assert.rejects(createProvider().ensureAuthenticated(), (error) => {
+        assert.ok(error instanceof IdentityError);
+        assert.match(error.message, message);
+        return true;
+      });
+      assert.equal(await storedTokens(), null);
+    });
+  }
+
+  it('fetches the keys again after the server rotated them', async () => {
+    await startServer();
+    const provider = createProvider();
+    await provider.ensureAuthenticated();
+    server.rotateSigningKey();
+    await expireStoredTokens();
+
+    const tokens = await provider.tokens();
+
+    assert.ok(tokens.id_token);
+    assert.equal(server.requests.filter((request) => request.path === '/jwks').length, 2);
+  });
+
+  it('reports a switch to another account', async () => {
+    await startServer();
+    const provider = createProvider();
+    const changes = [];
+    provider.on('account-changed', ({ previous, current }) => changes.push([previous.subject, current.subject]));
+    await provider.ensureAuthenticated();
+
+    server.user = { sub: 'user-2', email: 'other@example.com' };
+    await provider.stepUpAuthorization(['mcp:read']);
+
+    assert.deepEqual(changes, [['user-1', 'user-2']]);
+    assert.equal((await provider.getIdentity()).email, 'other@example.com');
+  });
+});
+
+describe('validateIdToken', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] };
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { iss: 'https://as.example.com', sub: 'user-1', aud: 'client-1', iat: now, exp: now + 300 };
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  function sign(header, payload) {
+    const input = `${encode(header)}.${encode(payload)}`;
+    const signature = crypto.sign('sha256', Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${input}.${signature.toString('base64url')}`;
+  }
+
+  const options = { issuer: 'https://as.example.com', clientId: 'client-1', jwks };
+
+  it('accepts a valid token', async () => {
+    const validated = await validateIdToken(sign({ alg: 'ES256', kid: 'key-1' }, claims), options);
+
+    assert.equal(validated.sub, 'user-1');
+  });
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = sign({ alg: 'ES256', kid: 'key-1' }, claims).split('.');
+    const tampered = `${header}.${encode({ ...claims, sub: 'admin' })}.${signature}`;
+
+    await assert.rejects(validateIdToken(tampered, options), /Invalid id_token signature/);
+  });
+
+  it('rejects unsigned and HMAC tokens', async () => {
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`;
+    const hmac = `${encode({ alg: 'HS256' })}.${encode(claims)}.c2lnbmF0dXJl`;
+
+    await assert.rejects(validateIdToken(unsigned, options), /No key of the issuer matches/);
+    await assert.rejects(validateIdToken(hmac, options), /No key of the issuer matches/);
+  });
+});
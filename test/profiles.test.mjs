@@ -0,0 +1,131 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OAuthClientProvider,
+  OAuthProviderRegistry,
+  InMemoryTokenStorage,
+  getServerUrlHash
+} from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('profiles', () => {
+  let server;
+  let storage;
+  let browser;
+  const providers = [];
+
+  function createProvider(options = {}) {
+    const provider = new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      oidc: true,
+      onAuthorizationUrl: browser.open,
+      ...options
+    });
+    providers.push(provider);
+    return provider;
+  }
+
+  function authorizeParams(index) {
+    const visits = browser.visited.filter((url) => url.includes('/authorize'));
+    return new URL(visits[index]).searchParams;
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read'] });
+    await server.start();
+    storage = new InMemoryTokenStorage();
+    browser = new BrowserStub();
+  });
+
+  afterEach(async () => {
+    for (const provider of providers.splice(0)) {
+      await provider.cleanup();
+    }
+    await server.stop();
+  });
+
+  it('keeps separate credentials per profile', async () => {
+    const personal = await createProvider().tokens();
+    server.user = { sub: 'admin-1', email: 'admin@example.com' };
+    const admin = await createProvider({ profile: 'admin' }).tokens();
+
+    assert.notEqual(admin.access_token, personal.access_token);
+    assert.equal((await storage.getTokens(getServerUrlHash(server.mcpUrl))).access_token, personal.access_token);
+    assert.equal((await storage.getTokens(getServerUrlHash(server.mcpUrl, 'admin'))).access_token, admin.access_token);
+  });
+
+  it('lets the user choose an account for a new profile and hints it afterwards', async () => {
+    const provider = createProvider({ profile: 'admin' });
+    await provider.ensureAuthenticated();
+    await provider.stepUpAuthorization(['mcp:read']);
+
+    assert.equal(authorizeParams(0).get('prompt'), 'select_account');
+    assert.equal(authorizeParams(0).get('login_hint'), null);
+    assert.equal(authorizeParams(1).get('prompt'), null);
+    assert.equal(authorizeParams(1).get('login_hint'), 'user@example.com');
+  });
+
+  it('sends the configured login hint', async () => {
+    await createProvider({ loginHint: 'someone@example.com' }).ensureAuthenticated();
+
+    assert.equal(authorizeParams(0).get('login_hint'), 'someone@example.com');
+  });
+
+  it('lists, selects and removes profiles', async () => {
+    const provider = createProvider();
+    await provider.ensureAuthenticated();
+    server.user = { sub: 'admin-1', email: 'admin@example.com' };
+
+    await provider.selectProfile('admin');
+    await provider.ensureAuthenticated();
+
+    assert.equal(provider.profile, 'admin');
+    assert.equal((await provider.getIdentity()).subject, 'admin-1');
+    assert.deepEqual(await provider.listProfiles(), [
+      { profile: 'admin', account: 'admin@example.com', authenticated: true, active: true },
+      { profile: 'default', account: 'user@example.com', authenticated: true, active: false }
+    ]);
+
+    await provider.removeProfile('admin');
+    await provider.selectProfile('default');
+
+    assert.deepEqual((await provider.listProfiles()).map(({ profile }) => profile), ['default']);
+    assert.equal((await provider.getIdentity()).subject, 'user-1');
+  });
+
+  it('keeps the registered client when a registry without a fixed port starts again', async () => {
+    for (let run = 0; run < 2; run++) {
+      const registry = new OAuthProviderRegistry({ server: { serverUrl: server.mcpUrl } }, {
+        defaults: { storage, logger: silentLogger, onAuthorizationUrl: browser.open }
+      });
+      try {
+        await registry.get('server').ensureAuthenticated();
+      } finally {
+        await registry.cleanup();
+      }
+      await storage.deleteTokens(getServerUrlHash(server.mcpUrl));
+    }
+
+    assert.equal(server.clients.size, 1);
+    assert.equal(browser.visited.filter((url) => url.includes('/authorize')).length, 2);
+  });
+
+  it('creates one registry provider per profile of a server', async () => {
+    const registry = new OAuthProviderRegistry({
+      personal: { serverUrl: server.mcpUrl, storage, logger: silentLogger },
+      admin: { serverUrl: server.mcpUrl, profile: 'admin', storage, logger: silentLogger }
+    });
+
+    try {
+      assert.notEqual(registry.get('personal'), registry.get('admin'));
+      assert.equal(registry.get('admin').profile, 'admin');
+    } finally {
+      await registry.cleanup();
+    }
+  });
+});
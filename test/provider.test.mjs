@@ -0,0 +1,235 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import {
+  OAuthClientProvider,
+  InMemoryTokenStorage,
+  AuthorizationDeniedError,
+  TokenExchangeError,
+  getServerUrlHash
+} from '../dist/index.mjs';
+import { MockAuthorizationServer, BrowserStub } from '../dist/testing.mjs';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('OAuthClientProvider against the mock authorization server', () => {
+  let server;
+  let storage;
+  let browser;
+  let provider;
+
+  function createProvider(options = {}) {
+    return new OAuthClientProvider({
+      serverUrl: server.mcpUrl,
+      host: 'localhost',
+      storage,
+      logger: silentLogger,
+      onAuthorizationUrl: browser.open,
+      ...options
+    });
+  }
+
+  async function storedTokens() {
+    return storage.getTokens(getServerUrlHash(server.mcpUrl));
+  }
+
+  async function expireStoredTokens() {
+    const tokens = await storedTokens();
+    await storage.saveTokens(getServerUrlHash(server.mcpUrl), { ...tokens, expires_at: 0 });
+  }
+
+  async function callMcp(accessToken) {
+    const response = await axios.get(server.mcpUrl, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      validateStatus: () => true
+    });
+    return response.status;
+  }
+
+  beforeEach(async () => {
+    server = new MockAuthorizationServer({ scopes: ['mcp:read', 'mcp:write'], deviceFlow: true });
+    await server.start();
+    storage = new InMemoryTokenStorage();
+    browser = new BrowserStub();
+    provider = createProvider();
+  });
+
+  afterEach(async () => {
+    await provider.cleanup();
+    await server.stop();
+  });
+
+  it('discovers, registers and completes the authorization code flow', async () => {
+    const tokens = await provider.tokens();
+
+    assert.ok(tokens?.access_token);
+    assert.ok(tokens.refresh_token);
+    assert.equal(server.clients.size, 1);
+    assert.equal(await callMcp(tokens.access_token), 200);
+
+    const authorizeUrl = new URL(browser.visited[0]);
+    assert.equal(authorizeUrl.pathname, '/authorize');
+    assert.equal(authorizeUrl.searchParams.get('code_challenge_method'), 'S256');
+    assert.equal(authorizeUrl.searchParams.get('resource'), server.mcpUrl);
+    assert.equal(browser.lastResponse?.status, 200);
+  });
+
+  it('reuses stored tokens without authorizing again', async () => {
+    const first = await provider.tokens();
+    const second = await createProvider().tokens();
+
+    assert.equal(second?.access_token, first?.access_token);
+    assert.equal(browser.visited.filter((url) => url.includes('/authorize')).length, 1);
+  });
+
+  it('refreshes expiring tokens and stores the rotated refresh token', async () => {
+    const first = await provider.tokens();
+    await expireStoredTokens();
+
+    const refreshed = await provider.tokens();
+
+    assert.notEqual(refreshed?.access_token, first?.access_token);
+    assert.notEqual(refreshed?.refresh_token, first?.refresh_token);
+    assert.equal((await storedTokens())?.refresh_token, refreshed?.refresh_token);
+    assert.equal(await callMcp(refreshed.access_token), 200);
+  });
+
+  it('authorizes again when the refresh token is rejected', async () => {
+    const invalidated = [];
+    provider.on('credentials-invalidated', ({ scope }) => invalidated.push(scope));
+    const first = await provider.tokens();
+    await expireStoredTokens();
+    server.revokeRefreshTokens();
+
+    const tokens = await provider.tokens();
+
+    assert.ok(tokens?.access_token);
+    assert.notEqual(tokens.access_token, first?.access_token);
+    assert.ok(invalidated.includes('tokens'));
+    assert.equal(browser.visited.filter((url) => url.includes('/authorize')).length, 2);
+  });
+
+  it('clears everything on invalidateCredentials("all")', async () => {
+    await provider.tokens();
+    const hash = getServerUrlHash(server.mcpUrl);
+
+    await provider.invalidateCredentials('all');
+
+    assert.equal(await storage.getTokens(hash), null);
+    assert.equal(await storage.getClientInfo(hash), null);
+    assert.equal(await storage.getCodeVerifier(hash), null);
+  });
+
+  it('revokes tokens and deletes the client on logout', async () => {
+    const tokens = await provider.tokens();
+
+    await provider.logout({ deleteClient: true });
+
+    assert.equal(await callMcp(tokens.access_token), 401);
+    assert.equal(server.clients.size, 0);
+    assert.equal(await storedTokens(), null);
+  });
+
+  it('surfaces a denied authorization', async () => {
+    server.injectError('authorize', { error: 'access_denied', errorDescription: 'User said no' });
+
+    await assert.rejects(provider.ensureAuthenticated(), AuthorizationDeniedError);
+    assert.match(browser.lastResponse?.body ?? '', /User said no/);
+  });
+
+  it('surfaces token endpoint errors', async () => {
+    server.injectError('token', { error: 'invalid_grant', grantType: 'authorization_code' });
+
+    await assert.rejects(provider.ensureAuthenticated(), (error) => {
+      assert.ok(error instanceof TokenExchangeError);
+      assert.equal(error.code, 'invalid_grant');
+      assert.equal(error.cause.config, undefined);
+      assert.equal(error.cause.request, undefined);
+      return true;
+    });
+  });
+
+  it('retries a rate-limited token request after Retry-After', async () => {
+    server.injectError('token', { status: 429, error: 'slow_down', retryAfter: 0 });
+
+    await provider.ensureAuthenticated();
+
+    assert.ok((await storedTokens())?.access_token);
+    assert.equal(server.requests.filter((request) => request.path === '/token').length, 2);
+  });
+
+  it('registers a new client for the device flow when the stored one lacks the grant', async () => {
+    await provider.ensureAuthenticated();
+    await provider.cleanup();
+    await storage.deleteTokens(getServerUrlHash(server.mcpUrl));
+
+    provider = createProvider({ authFlow: 'device', onDeviceCode: ({ userCode }) => server.approveDevice(userCode) });
+    await provider.ensureAuthenticated();
+
+    const clientInfo = await storage.getClientInfo(getServerUrlHash(server.mcpUrl));
+    assert.equal(server.clients.size, 2);
+    assert.ok(clientInfo.grant_types.includes('urn:ietf:params:oauth:grant-type:device_code'));
+    assert.ok((await storedTokens())?.access_token);
+  });
+
+  it('registers a new client for the browser flow when the stored one only has the device grant', async () => {
+    const redirectUri = 'com.example.app:/oauth/callback';
+    await storage.saveClientInfo(getServerUrlHash(server.mcpUrl), {
+      client_id: 'device-client',
+      redirect_uris: [redirectUri],
+      grant_types: ['urn:ietf:params:oauth:grant-type:device_code', 'refresh_token']
+    });
+    let openAuthorizationUrl;
+    const authorizationUrl = new Promise((resolve) => { openAuthorizationUrl = resolve; });
+    provider = createProvider({ authFlow: 'browser', redirectUri, onAuthorizationUrl: openAuthorizationUrl });
+
+    const authenticated = provider.ensureAuthenticated();
+    await browser.open(await authorizationUrl);
+    await provider.completeAuthorization(browser.lastUrl);
+    await authenticated;
+
+    const clientInfo = await storage.getClientInfo(getServerUrlHash(server.mcpUrl));
+    assert.notEqual(clientInfo.client_id, 'device-client');
+    assert.ok(clientInfo.grant_types.includes('authorization_code'));
+    assert.ok((await storedTokens())?.access_token);
+  });
+
+  it('registers a new client when switching from the callback server to a custom redirect URI', async () => {
+    await provider.ensureAuthenticated();
+    await provider.cleanup();
+    await storage.deleteTokens(getServerUrlHash(server.mcpUrl));
+
+    let openAuthorizationUrl;
+    const authorizationUrl = new Promise((resolve) => { openAuthorizationUrl = resolve; });
+    provider = createProvider({
+      redirectUri: 'com.example.app:/oauth/callback',
+      onAuthorizationUrl: openAuthorizationUrl
+    });
+    const authenticated = provider.ensureAuthenticated();
+    const url = new URL(await authorizationUrl);
+    await browser.open(url.toString());
+    await provider.completeAuthorization(browser.lastUrl);
+    await authenticated;
+
+    assert.equal(url.searchParams.get('redirect_uri'), 'com.example.app:/oauth/callback');
+    assert.equal(server.clients.size, 2);
+    assert.ok((await storedTokens())?.access_token);
+  });
+
+  it('completes authorization for a custom redirect URI', async () => {
+    let openAuthorizationUrl;
+    const authorizationUrl = new Promise((resolve) => { openAuthorizationUrl = resolve; });
+    provider = createProvider({
+      redirectUri: 'com.example.app:/oauth/callback',
+      onAuthorizationUrl: openAuthorizationUrl
+    });
+
+    const authenticated = provider.ensureAuthenticated();
+    await browser.open(await authorizationUrl);
+    await provider.completeAuthorization(browser.lastUrl);
+    await authenticated;
+
+    assert.ok((await storedTokens())?.access_token);
+    assert.match(browser.lastUrl ?? '', /^com\.example\.app:\/oauth\/callback\?/);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { FileTokenStorage } from '../dist/index.mjs';
+
+const tokens = { access_token: 'access-1', token_type: 'Bearer', refresh_token: 'refresh-1' };
+
+describe('FileTokenStorage', () => {
+  let dir;
+
+  async function readEnvelope(configDir) {
+    return JSON.parse(await fs.readFile(path.join(configDir, 'server-1', 'tokens.json'), 'utf-8'));
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-oauth-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts with a random salt per store', async () => {
+    const first = path.join(dir, 'first');
+    const second = path.join(dir, 'second');
+    await new FileTokenStorage(first, { encryptionKey: 'secret' }).saveTokens('server-1', tokens);
+    await new FileTokenStorage(second, { encryptionKey: 'secret' }).saveTokens('server-1', tokens);
+
+    const envelope = await readEnvelope(first);
+    assert.equal(envelope.version, 1);
+    assert.equal(envelope.salt, (await fs.readFile(path.join(first, 'encryption_salt'), 'utf-8')).trim());
+    assert.notEqual(envelope.salt, (await readEnvelope(second)).salt);
+    assert.deepEqual(await new FileTokenStorage(first, { encryptionKey: 'secret' }).getTokens('server-1'), tokens);
+  });
+
+  it('restricts directories created by earlier versions', async () => {
+    await fs.mkdir(path.join(dir, 'server-1'), { mode: 0o755 });
+    await fs.chmod(dir, 0o755);
+
+    await new FileTokenStorage(dir).saveTokens('server-1', tokens);
+
+    assert.equal((await fs.stat(dir)).mode & 0o777, 0o700);
+    assert.equal((await fs.stat(path.join(dir, 'server-1'))).mode & 0o777, 0o700);
+  });
+});